@@ -0,0 +1,75 @@
+/**
+ * Benchmark of the stdout modes: the client library's LogSync path and
+ * the fast structured writer. Requires a build (npm run build).
+ *
+ * Entries are written to stdout, so redirect it:
+ *   node bench/stdout.js > /dev/null
+ *
+ * Results are printed to stderr.
+ */
+
+'use strict';
+
+const { LoggingCommon } = require('../dist/index.js');
+
+const ITERATIONS = Number(process.env.BENCH_ITERATIONS ?? 50000);
+const WARMUP = Math.min(5000, ITERATIONS);
+
+/**
+ * A typical request log line with trace context
+ */
+function makeLogObject(i) {
+  return {
+    level: 30,
+    time: Date.now(),
+    msg: `request ${i} handled`,
+    pid: 1234,
+    hostname: 'bench',
+    userId: 'user-42',
+    route: '/api/items/:id',
+    durationMs: 12.5,
+    labels: { tenant: 'acme' },
+    httpRequest: { requestMethod: 'GET', requestUrl: `/api/items/${i}`, status: 200 },
+    'logging.googleapis.com/trace': 'projects/bench/traces/0af7651916cd43dd8448eb211c80319c',
+    'logging.googleapis.com/spanId': 'b7ad6b7169203331',
+  };
+}
+
+async function run(name, options) {
+  const logging = new LoggingCommon({
+    projectId: 'bench',
+    redirectToStdout: true,
+    resource: { type: 'global' },
+    traceContextProvider: () => undefined,
+    ...options,
+  });
+
+  for (let i = 0; i < WARMUP; i++) {
+    await logging.writeLog(makeLogObject(i));
+  }
+
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < ITERATIONS; i++) {
+    await logging.writeLog(makeLogObject(i));
+  }
+  const elapsedMs = Number(process.hrtime.bigint() - start) / 1e6;
+  await logging.shutdown();
+
+  const perSecond = Math.round((ITERATIONS / elapsedMs) * 1000);
+  console.error(
+    `${name.padEnd(12)} ${elapsedMs.toFixed(0).padStart(6)} ms  ${perSecond.toLocaleString('en-US').padStart(10)} entries/s`
+  );
+  return elapsedMs;
+}
+
+async function main() {
+  console.error(`Writing ${ITERATIONS} entries per mode`);
+  const client = await run('LogSync', {});
+  const fast = await run('fastStdout', { fastStdout: true });
+  console.error(`fastStdout is ${(client / fast).toFixed(1)}x as fast`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,244 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import type { Entry } from '@google-cloud/logging';
+import { EntryBatcher } from './batch.js';
+
+const unavailable = () => Object.assign(new Error('unavailable'), { code: 14 });
+
+function entry(data: unknown): Entry {
+  return { metadata: {}, data } as Entry;
+}
+
+/**
+ * Add entries, collecting the error each callback receives
+ */
+async function addAll(
+  batcher: EntryBatcher,
+  values: unknown[],
+  results: Array<Error | null> = []
+): Promise<Array<Error | null>> {
+  for (const value of values) {
+    await batcher.add(entry(value), (err) => results.push(err));
+  }
+  return results;
+}
+
+test('sends a batch once maxEntries is reached', async () => {
+  const batches: unknown[][] = [];
+  const batcher = new EntryBatcher(async (entries) => {
+    batches.push(entries.map((e) => e.data));
+  }, { maxEntries: 2, maxDelayMs: 60000 });
+
+  const results = await addAll(batcher, [1, 2, 3]);
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.deepEqual(batches, [[1, 2]]);
+
+  await batcher.flush();
+  assert.deepEqual(batches, [[1, 2], [3]]);
+  assert.deepEqual(results, [null, null, null]);
+});
+
+test('sends a batch early when maxBytes would be exceeded', async () => {
+  const batches: unknown[][] = [];
+  const batcher = new EntryBatcher(async (entries) => {
+    batches.push(entries.map((e) => e.data));
+  }, { maxBytes: 40, maxDelayMs: 60000 });
+
+  await addAll(batcher, ['a'.repeat(20), 'b'.repeat(20)]);
+  await batcher.flush();
+  assert.equal(batches.length, 2);
+});
+
+test('sends buffered entries after maxDelayMs', async () => {
+  const batches: unknown[][] = [];
+  const batcher = new EntryBatcher(async (entries) => {
+    batches.push(entries.map((e) => e.data));
+  }, { maxDelayMs: 10 });
+
+  await addAll(batcher, [1]);
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  assert.deepEqual(batches, [[1]]);
+});
+
+test('retries retryable failures in order', async () => {
+  let calls = 0;
+  const written: unknown[] = [];
+  const batcher = new EntryBatcher(
+    async (entries) => {
+      if (calls++ < 2) {
+        throw unavailable();
+      }
+      written.push(...entries.map((e) => e.data));
+    },
+    { maxEntries: 1 },
+    { initialDelayMs: 1, maxDelayMs: 2 }
+  );
+
+  const results = await addAll(batcher, [1, 2, 3]);
+  await batcher.flush();
+  assert.deepEqual(written, [1, 2, 3]);
+  assert.deepEqual(results, [null, null, null]);
+  assert.ok(batcher.getStats().retried > 0);
+});
+
+test('fails non-retryable errors without retrying', async () => {
+  let calls = 0;
+  const errors: Array<[string, number]> = [];
+  const batcher = new EntryBatcher(
+    async () => {
+      calls++;
+      throw Object.assign(new Error('denied'), { code: 7 });
+    },
+    {},
+    {},
+    (err, count) => errors.push([err.message, count])
+  );
+
+  const results = await addAll(batcher, [1, 2]);
+  await batcher.flush();
+  assert.equal(calls, 1);
+  assert.deepEqual(errors, [['denied', 2]]);
+  assert.equal(results.length, 2);
+  assert.ok(results.every((err) => err?.message === 'denied'));
+  assert.equal(batcher.getStats().droppedNonRetryable, 2);
+});
+
+test('drops entries once maxRetries is exhausted', async () => {
+  let calls = 0;
+  const batcher = new EntryBatcher(
+    async () => {
+      calls++;
+      throw unavailable();
+    },
+    {},
+    { maxRetries: 2, initialDelayMs: 1, maxDelayMs: 2 }
+  );
+
+  const results = await addAll(batcher, [1]);
+  await batcher.flush();
+  assert.equal(calls, 3);
+  assert.equal(results[0]?.message, 'unavailable');
+  assert.equal(batcher.getStats().droppedRetriesExhausted, 1);
+});
+
+for (const [policy, kept] of [
+  ['drop-oldest', [2, 3]],
+  ['drop-newest', [1, 2]],
+] as const) {
+  test(`applies the ${policy} overflow policy to the retry queue`, async () => {
+    let failing = true;
+    const written: unknown[] = [];
+    const batcher = new EntryBatcher(
+      async (entries) => {
+        if (failing) {
+          throw unavailable();
+        }
+        written.push(...entries.map((e) => e.data));
+      },
+      { maxEntries: 1 },
+      { maxQueueSize: 2, overflowPolicy: policy, initialDelayMs: 20, maxDelayMs: 20 }
+    );
+
+    const results = await addAll(batcher, [1]);
+    await new Promise((resolve) => setImmediate(resolve));
+    await addAll(batcher, [2, 3], results);
+    failing = false;
+    await batcher.flush();
+
+    assert.deepEqual(written, kept);
+    assert.equal(batcher.getStats().droppedOverflow, 1);
+    assert.equal(results.filter((err) => err?.message.includes('retry queue is full')).length, 1);
+  });
+}
+
+test('blocks new entries while the retry queue is full with the block policy', async () => {
+  let failing = true;
+  const batcher = new EntryBatcher(
+    async () => {
+      if (failing) {
+        throw unavailable();
+      }
+    },
+    { maxEntries: 1 },
+    { maxQueueSize: 1, overflowPolicy: 'block', initialDelayMs: 20, maxDelayMs: 20 }
+  );
+
+  await addAll(batcher, [1]);
+  await new Promise((resolve) => setImmediate(resolve));
+
+  let added = false;
+  const adding = batcher.add(entry(2), () => {}).then(() => {
+    added = true;
+  });
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  assert.equal(added, false);
+
+  failing = false;
+  await adding;
+  await batcher.flush();
+  assert.equal(batcher.getStats().droppedOverflow, 0);
+});
+
+test('fails buffered and queued entries on close', async () => {
+  const batcher = new EntryBatcher(
+    async () => {
+      throw unavailable();
+    },
+    { maxEntries: 1 },
+    { initialDelayMs: 60000, maxDelayMs: 60000 }
+  );
+
+  const results = await addAll(batcher, [1]);
+  await new Promise((resolve) => setImmediate(resolve));
+  await addAll(batcher, [2], results);
+  batcher.close(new Error('closed'));
+  await addAll(batcher, [3], results);
+
+  assert.deepEqual(
+    results.map((err) => err?.message),
+    ['closed', 'closed', 'closed']
+  );
+  assert.equal(batcher.getStats().droppedShutdown, 3);
+});
+
+/**
+ * Run a script adding one entry in a separate process that exits on its
+ * own, returning what it printed
+ */
+async function runUntilExit(body: string): Promise<string> {
+  const script = `
+    const { EntryBatcher } = require(${JSON.stringify(join(__dirname, 'batch.ts'))});
+    ${body}
+    batcher.add({ metadata: {}, data: 1 }, (err) => console.log(err ? 'failed' : 'written'));
+  `;
+  const { stdout } = await promisify(execFile)(process.execPath, ['--import', 'tsx', '-e', script], {
+    timeout: 20000,
+  });
+  return stdout.trim();
+}
+
+test('keeps the process alive for queued retries', async () => {
+  const output = await runUntilExit(`
+    let attempts = 0;
+    const batcher = new EntryBatcher(
+      async () => {
+        if (++attempts === 1) {
+          throw Object.assign(new Error('unavailable'), { code: 14 });
+        }
+      },
+      { maxEntries: 1 },
+      { initialDelayMs: 200 }
+    );
+  `);
+  assert.equal(output, 'written');
+});
+
+test('does not keep the process alive for buffered entries', async () => {
+  const output = await runUntilExit(`
+    const batcher = new EntryBatcher(async () => {}, { maxDelayMs: 60000 });
+  `);
+  assert.equal(output, '');
+});
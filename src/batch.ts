@@ -0,0 +1,406 @@
+/**
+ * Batching and retry of Cloud Logging API writes
+ */
+
+import type { Entry } from '@google-cloud/logging';
+import type { BatchingOptions, OverflowPolicy, RetryOptions, WriteStats } from './types.js';
+import { getBackoffDelay, isRetryableError } from './retry.js';
+
+const DEFAULT_MAX_ENTRIES = 200;
+const DEFAULT_MAX_BYTES = 4000000; // 4MB, well below the 10MB request limit
+const DEFAULT_MAX_DELAY_MS = 1000;
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_MAX_QUEUE_SIZE = 10000;
+
+/**
+ * Completion handler for a single buffered entry
+ */
+export type EntryCallback = (err: Error | null) => void;
+
+/**
+ * Function that sends a batch of entries in a single API call,
+ * given the estimated serialized size of the batch
+ */
+export type BatchSender = (entries: Entry[], bytes: number) => Promise<void>;
+
+/**
+ * Handler invoked once for every group of entries that could not be written
+ */
+export type BatchErrorHandler = (err: Error, count: number) => void;
+
+/**
+ * Write stats kept by a batcher
+ */
+export type BatchStats = Omit<
+  WriteStats,
+  'spooled' | 'spoolQueued' | 'droppedSpoolOverflow' | 'droppedSpoolExpired'
+>;
+
+interface PendingEntry {
+  entry: Entry;
+  size: number;
+  attempts: number;
+  callback: EntryCallback;
+}
+
+/**
+ * Estimate the serialized size of an entry in bytes.
+ * Entries that cannot be serialized (e.g. circular data) count as empty;
+ * the client library removes circular references when writing.
+ */
+export function estimateEntrySize(entry: Entry): number {
+  try {
+    return Buffer.byteLength(JSON.stringify({ ...entry.metadata, data: entry.data }));
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Invoke the callbacks of a finished batch. A throwing callback must not
+ * prevent the remaining entries from being notified.
+ */
+function complete(batch: PendingEntry[], err: Error | null): void {
+  for (const item of batch) {
+    try {
+      item.callback(err);
+    } catch {
+      // Ignore errors thrown by user callbacks
+    }
+  }
+}
+
+/**
+ * Buffers entries and sends them in batches, flushing when the batch
+ * reaches the configured number of entries or bytes, or when the oldest
+ * buffered entry has waited for the configured delay.
+ *
+ * Batches failing with a retryable error move to a bounded retry queue,
+ * which is drained in order with exponential backoff. While the queue is
+ * not empty, new batches join it instead of being sent directly.
+ */
+export class EntryBatcher {
+  private send: BatchSender;
+  private onError?: BatchErrorHandler;
+  private maxEntries: number;
+  private maxBytes: number;
+  private maxDelayMs: number;
+  private retryOptions: RetryOptions;
+  private maxRetries: number;
+  private maxQueueSize: number;
+  private overflowPolicy: OverflowPolicy;
+  private pending: PendingEntry[] = [];
+  private pendingBytes = 0;
+  private timer?: NodeJS.Timeout;
+  private inFlight = new Set<Promise<void>>();
+  private retryQueue: PendingEntry[] = [];
+  private retryTimer?: NodeJS.Timeout;
+  private retrying = false;
+  private consecutiveFailures = 0;
+  private waiters: Array<() => void> = [];
+  private closedError?: Error;
+  private stats = {
+    retried: 0,
+    droppedOverflow: 0,
+    droppedRetriesExhausted: 0,
+    droppedNonRetryable: 0,
+    droppedShutdown: 0,
+  };
+
+  constructor(
+    send: BatchSender,
+    options: BatchingOptions = {},
+    retry: RetryOptions = {},
+    onError?: BatchErrorHandler
+  ) {
+    this.send = send;
+    this.onError = onError;
+    this.maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    this.retryOptions = retry;
+    this.maxRetries = retry.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.maxQueueSize = Math.max(1, retry.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE);
+    this.overflowPolicy = retry.overflowPolicy ?? 'drop-oldest';
+  }
+
+  /**
+   * Counters for retried and dropped entries
+   */
+  getStats(): BatchStats {
+    return { ...this.stats, queued: this.retryQueue.length };
+  }
+
+  /**
+   * Number of entries buffered or waiting to be retried
+   */
+  getQueueDepth(): number {
+    return this.pending.length + this.retryQueue.length;
+  }
+
+  /**
+   * Add an entry to the current batch. The callback is invoked once
+   * the batch containing the entry has been written or has failed.
+   * With the 'block' overflow policy, the returned promise waits until
+   * the retry queue has room.
+   */
+  async add(entry: Entry, callback: EntryCallback): Promise<void> {
+    while (this.overflowPolicy === 'block' && this.retryQueue.length >= this.maxQueueSize) {
+      await this.nextSettle();
+    }
+
+    if (this.closedError) {
+      this.stats.droppedShutdown++;
+      callback(this.closedError);
+      return;
+    }
+
+    const size = estimateEntrySize(entry);
+
+    // Send what we have first if this entry would overflow the batch
+    if (this.pending.length > 0 && this.pendingBytes + size > this.maxBytes) {
+      this.sendPending();
+    }
+
+    this.pending.push({ entry, size, attempts: 0, callback });
+    this.pendingBytes += size;
+
+    if (this.pending.length >= this.maxEntries || this.pendingBytes >= this.maxBytes) {
+      this.sendPending();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.sendPending(), this.maxDelayMs);
+      // Pending entries don't keep the process alive; flush() and shutdown() send them
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Send all buffered entries and wait until every batch, including
+   * queued retries, has been written or dropped
+   */
+  async flush(): Promise<void> {
+    this.sendPending();
+    while (this.inFlight.size > 0 || this.retryQueue.length > 0) {
+      await this.nextSettle();
+    }
+  }
+
+  /**
+   * Stop batching and retrying. Entries that are still buffered or
+   * waiting to be retried fail with the given error, as do entries
+   * added afterwards. Batches already being sent are not interrupted.
+   */
+  close(err: Error): void {
+    this.closedError = err;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+
+    const remaining = [...this.retryQueue, ...this.pending];
+    this.retryQueue = [];
+    this.pending = [];
+    this.pendingBytes = 0;
+
+    this.stats.droppedShutdown += remaining.length;
+    this.drop(remaining, err);
+    this.settle();
+  }
+
+  /**
+   * Send the buffered entries as one batch, or queue them behind
+   * the entries waiting to be retried
+   */
+  private sendPending(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    if (this.pending.length === 0) {
+      return;
+    }
+
+    const batch = this.pending;
+    this.pending = [];
+    this.pendingBytes = 0;
+
+    if (this.retryQueue.length > 0 || this.retrying) {
+      this.enqueueRetry(batch);
+      return;
+    }
+
+    this.sendBatch(batch);
+  }
+
+  /**
+   * Send a batch and route its entries according to the outcome
+   */
+  private sendBatch(batch: PendingEntry[], isRetry = false): void {
+    const bytes = batch.reduce((sum, item) => sum + item.size, 0);
+    const request = this.send(
+      batch.map((item) => item.entry),
+      bytes
+    ).then(
+      () => {
+        this.consecutiveFailures = 0;
+        complete(batch, null);
+      },
+      (err) =>
+        this.handleFailure(batch, err instanceof Error ? err : new Error(String(err)), isRetry)
+    );
+
+    const tracked = request.finally(() => {
+      this.inFlight.delete(tracked);
+      if (isRetry) {
+        this.retrying = false;
+        this.scheduleRetry();
+      }
+      this.settle();
+    });
+    this.inFlight.add(tracked);
+  }
+
+  /**
+   * Queue retryable failures and fail everything else
+   */
+  private handleFailure(batch: PendingEntry[], err: Error, isRetry: boolean): void {
+    if (this.closedError) {
+      this.stats.droppedShutdown += batch.length;
+      this.drop(batch, err);
+      return;
+    }
+
+    if (!isRetryableError(err)) {
+      this.stats.droppedNonRetryable += batch.length;
+      this.drop(batch, err);
+      return;
+    }
+
+    this.consecutiveFailures++;
+
+    const retryable: PendingEntry[] = [];
+    const exhausted: PendingEntry[] = [];
+    for (const item of batch) {
+      (item.attempts < this.maxRetries ? retryable : exhausted).push(item);
+    }
+
+    if (exhausted.length > 0) {
+      this.stats.droppedRetriesExhausted += exhausted.length;
+      this.drop(exhausted, err);
+    }
+
+    this.enqueueRetry(retryable, isRetry);
+  }
+
+  /**
+   * Add entries to the retry queue, applying the overflow policy.
+   * Entries being retried again are older than the queued ones and
+   * go back to the head of the queue to preserve order.
+   */
+  private enqueueRetry(items: PendingEntry[], atHead = false): void {
+    if (items.length === 0) {
+      return;
+    }
+
+    const queue = atHead ? [...items, ...this.retryQueue] : [...this.retryQueue, ...items];
+    const overflow = queue.length - this.maxQueueSize;
+
+    if (overflow > 0 && this.overflowPolicy !== 'block') {
+      const dropped =
+        this.overflowPolicy === 'drop-oldest'
+          ? queue.splice(0, overflow)
+          : queue.splice(queue.length - overflow);
+      this.stats.droppedOverflow += dropped.length;
+      this.drop(dropped, new Error('pino-cloud-logging: retry queue is full'));
+    }
+
+    this.retryQueue = queue;
+    this.scheduleRetry();
+  }
+
+  /**
+   * Start the backoff timer for the next retry if none is pending
+   */
+  private scheduleRetry(): void {
+    if (this.retryTimer || this.retrying || this.retryQueue.length === 0) {
+      return;
+    }
+
+    const delay =
+      this.consecutiveFailures > 0
+        ? getBackoffDelay(this.consecutiveFailures, this.retryOptions)
+        : 0;
+
+    // Unlike the batch timer, the retry timer keeps the process alive:
+    // the queued entries were already handed over and would be lost
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.retryNext();
+    }, delay);
+  }
+
+  /**
+   * Send the next batch from the head of the retry queue
+   */
+  private retryNext(): void {
+    if (this.retryQueue.length === 0) {
+      return;
+    }
+
+    let count = 0;
+    let bytes = 0;
+    while (
+      count < this.retryQueue.length &&
+      count < this.maxEntries &&
+      (count === 0 || bytes + this.retryQueue[count].size <= this.maxBytes)
+    ) {
+      bytes += this.retryQueue[count].size;
+      count++;
+    }
+
+    const batch = this.retryQueue.splice(0, count);
+    for (const item of batch) {
+      item.attempts++;
+    }
+    this.stats.retried += batch.length;
+
+    this.retrying = true;
+    this.sendBatch(batch, true);
+  }
+
+  /**
+   * Fail a group of entries and report it once
+   */
+  private drop(items: PendingEntry[], err: Error): void {
+    if (items.length === 0) {
+      return;
+    }
+    complete(items, err);
+    this.onError?.(err, items.length);
+    this.settle();
+  }
+
+  /**
+   * Wait until the next batch settles or entries are dropped
+   */
+  private nextSettle(): Promise<void> {
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+
+  /**
+   * Wake everything waiting for queue progress
+   */
+  private settle(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LoggingEmulator } from './testing/emulator.js';
+
+const CLI = join(__dirname, 'cli.ts');
+
+/**
+ * Run the CLI with the given arguments and input
+ */
+function runCli(
+  args: string[],
+  input: string
+): Promise<{ code: number | null; stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ['--import', 'tsx', CLI, ...args], { timeout: 20000 });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (chunk) => (stdout += chunk));
+    child.stderr.on('data', (chunk) => (stderr += chunk));
+    child.on('error', reject);
+    child.on('close', (code) => resolve({ code, stdout, stderr }));
+    child.stdin.end(input);
+  });
+}
+
+const INPUT = [
+  JSON.stringify({ level: 50, time: Date.parse('2024-01-02T03:04:05.678Z'), msg: 'failed', orderId: 7 }),
+  '',
+  'plain text',
+  JSON.stringify({ level: 'warn', msg: 'named level' }),
+].join('\n');
+
+test('prints the entries of a dry run', async () => {
+  const directory = await mkdtemp(join(tmpdir(), 'pino-cloud-logging-cli-'));
+  try {
+    const config = join(directory, 'config.json');
+    await writeFile(config, JSON.stringify({ logName: 'from-config', labels: { env: 'test', team: 'a' } }));
+
+    const { code, stdout } = await runCli(
+      ['--dry-run', '-p', 'test', '-c', config, '-l', 'team=b', '--resource-type', 'global'],
+      INPUT
+    );
+    assert.equal(code, 0);
+
+    const entries = stdout
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    assert.deepEqual(
+      entries.map(({ logName, labels }) => ({ logName, labels })),
+      Array(3).fill({ logName: 'from-config', labels: { env: 'test', team: 'b' } })
+    );
+    assert.deepEqual(
+      entries.map(({ severity, jsonPayload }) => [severity, jsonPayload]),
+      [
+        ['ERROR', { message: 'failed', orderId: 7 }],
+        ['INFO', { message: 'plain text' }],
+        ['WARNING', { message: 'named level' }],
+      ]
+    );
+    assert.equal(entries[0].timestamp, '2024-01-02T03:04:05.678Z');
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test('writes the entries to the API and exits once they are flushed', async () => {
+  const emulator = new LoggingEmulator();
+  const host = await emulator.start();
+  try {
+    const { code, stderr } = await runCli(['-p', 'test', '-n', 'piped', '--emulator-host', host], INPUT);
+    assert.equal(code, 0, stderr);
+    assert.deepEqual(
+      emulator.entries.map((entry) => [entry.logName, entry.jsonPayload?.message]),
+      [
+        ['piped', 'failed'],
+        ['piped', 'plain text'],
+        ['piped', 'named level'],
+      ]
+    );
+  } finally {
+    await emulator.stop();
+  }
+});
+
+test('exits with an error when entries cannot be written', async () => {
+  const emulator = new LoggingEmulator();
+  const host = await emulator.start();
+  try {
+    emulator.failNext(1, 403);
+    const { code, stderr } = await runCli(['-p', 'test', '--emulator-host', host], 'denied');
+    assert.equal(code, 1);
+    assert.match(stderr, /1 entries could not be written/);
+  } finally {
+    await emulator.stop();
+  }
+});
+
+test('writes structured JSON with --fast-stdout', async () => {
+  const { code, stdout } = await runCli(['--fast-stdout', '-p', 'test', '--prefix', 'job'], 'hello');
+  assert.equal(code, 0);
+  const record = JSON.parse(stdout);
+  assert.equal(record.severity, 'INFO');
+  assert.equal(record.message, '[job] hello');
+  assert.equal(record.logName, 'projects/test/logs/pino_log');
+});
+
+test('rejects invalid arguments with the usage', async () => {
+  for (const args of [['--label', 'novalue'], ['--resource-label', 'a=b'], ['--max-entry-size', 'big']]) {
+    const { code, stderr } = await runCli(args, '');
+    assert.equal(code, 2, args.join(' '));
+    assert.match(stderr, /Usage: pino-cloud-logging/);
+  }
+});
@@ -0,0 +1,299 @@
+#!/usr/bin/env node
+/**
+ * Command line interface piping Pino NDJSON from stdin into Cloud Logging
+ */
+
+import { readFileSync } from 'node:fs';
+import { createInterface } from 'node:readline';
+import { parseArgs } from 'node:util';
+import { LoggingCommon } from './common.js';
+import { captureEntry } from './testing/memory-sink.js';
+import { type PinoLogObject, type TransportOptions, PINO_LEVELS } from './types.js';
+
+const USAGE = `Usage: pino-cloud-logging [options]
+
+Reads newline-delimited Pino JSON from stdin and writes it to Cloud Logging.
+
+  node app.js | pino-cloud-logging --project my-project --log-name my-log
+
+Options:
+  -c, --config <file>            JSON file with transport options
+  -p, --project <id>             Google Cloud project ID
+  -n, --log-name <name>          Log name (default: pino_log)
+      --key-file <file>          Service account key file
+  -l, --label <key=value>        Label for all entries (repeatable)
+      --prefix <text>            Prefix for all messages
+      --service <name>           Service name for Error Reporting
+      --service-version <ver>    Service version for Error Reporting
+      --resource-type <type>     Monitored resource type
+      --resource-label <k=v>     Monitored resource label (repeatable)
+      --detect-resource          Detect the monitored resource
+      --stdout                   Write structured JSON to stdout instead of the API
+      --fast-stdout              Like --stdout, formatting entries directly
+      --max-entry-size <bytes>   Maximum entry size (default: 250000)
+      --flush-timeout <ms>       Deadline for the final flush (default: 5000)
+      --emulator-host <host>     Send API writes to a Cloud Logging emulator
+      --spool-dir <dir>          Buffer entries on disk while the API is unreachable
+      --dry-run                  Print the entries instead of sending them
+  -h, --help                     Show this help
+
+Flags override options from the config file. Lines that are not JSON
+objects are logged as info messages.`;
+
+/**
+ * Parsed command line
+ */
+interface CliOptions {
+  transportOptions: TransportOptions;
+  dryRun: boolean;
+  help: boolean;
+}
+
+/**
+ * Error in the command line arguments
+ */
+class UsageError extends Error {}
+
+/**
+ * Parse repeated key=value flags
+ */
+function parsePairs(flag: string, values: string[] | undefined): Record<string, string> | undefined {
+  if (!values?.length) {
+    return undefined;
+  }
+  const pairs: Record<string, string> = {};
+  for (const value of values) {
+    const index = value.indexOf('=');
+    if (index <= 0) {
+      throw new UsageError(`${flag} expects key=value, got "${value}"`);
+    }
+    pairs[value.slice(0, index)] = value.slice(index + 1);
+  }
+  return pairs;
+}
+
+/**
+ * Parse a numeric flag
+ */
+function parseNumber(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw new UsageError(`${flag} expects a number, got "${value}"`);
+  }
+  return number;
+}
+
+/**
+ * Read transport options from a JSON config file
+ */
+function readConfig(path: string): TransportOptions {
+  let config: unknown;
+  try {
+    config = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (err) {
+    throw new UsageError(`cannot read config file ${path}: ${(err as Error).message}`);
+  }
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new UsageError(`config file ${path} must contain a JSON object`);
+  }
+  return config as TransportOptions;
+}
+
+/**
+ * Parse the command line into transport options. Flags override the
+ * config file; labels are merged.
+ */
+function parseCommandLine(args: string[]): CliOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      config: { type: 'string', short: 'c' },
+      project: { type: 'string', short: 'p' },
+      'log-name': { type: 'string', short: 'n' },
+      'key-file': { type: 'string' },
+      label: { type: 'string', short: 'l', multiple: true },
+      prefix: { type: 'string' },
+      service: { type: 'string' },
+      'service-version': { type: 'string' },
+      'resource-type': { type: 'string' },
+      'resource-label': { type: 'string', multiple: true },
+      'detect-resource': { type: 'boolean' },
+      stdout: { type: 'boolean' },
+      'fast-stdout': { type: 'boolean' },
+      'max-entry-size': { type: 'string' },
+      'flush-timeout': { type: 'string' },
+      'emulator-host': { type: 'string' },
+      'spool-dir': { type: 'string' },
+      'dry-run': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const config = values.config ? readConfig(values.config) : {};
+  const options: TransportOptions = { ...config };
+
+  const flags: TransportOptions = {
+    projectId: values.project,
+    logName: values['log-name'],
+    keyFilename: values['key-file'],
+    prefix: values.prefix,
+    maxEntrySize: parseNumber('--max-entry-size', values['max-entry-size']),
+    flushTimeoutMs: parseNumber('--flush-timeout', values['flush-timeout']),
+    emulatorHost: values['emulator-host'],
+  };
+  for (const [key, value] of Object.entries(flags)) {
+    if (value !== undefined) {
+      (options as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  const labels = parsePairs('--label', values.label);
+  if (labels) {
+    options.labels = { ...config.labels, ...labels };
+  }
+  if (values.service || values['service-version']) {
+    options.serviceContext = {
+      ...config.serviceContext,
+      service: values.service ?? config.serviceContext?.service,
+      version: values['service-version'] ?? config.serviceContext?.version,
+    };
+  }
+  if (values['resource-type']) {
+    options.resource = {
+      type: values['resource-type'],
+      labels: parsePairs('--resource-label', values['resource-label']),
+    };
+  } else if (values['resource-label']) {
+    throw new UsageError('--resource-label requires --resource-type');
+  }
+  if (values['spool-dir']) {
+    options.spool = { ...config.spool, directory: values['spool-dir'] };
+  }
+  if (values['detect-resource']) {
+    options.detectResource = true;
+  }
+  if (values.stdout || values['fast-stdout']) {
+    options.redirectToStdout = true;
+  }
+  if (values['fast-stdout']) {
+    options.fastStdout = true;
+  }
+
+  return {
+    transportOptions: options,
+    dryRun: values['dry-run'] ?? false,
+    help: values.help ?? false,
+  };
+}
+
+/**
+ * Convert an input line to a log object. Lines that are not JSON objects
+ * become info messages; level names are mapped to Pino's level values.
+ */
+function toLogObject(line: string): PinoLogObject {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(line);
+  } catch {
+    parsed = undefined;
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return { level: PINO_LEVELS.info, time: Date.now(), msg: line };
+  }
+
+  const logObject = parsed as Record<string, unknown>;
+  let level = logObject.level;
+  if (typeof level === 'string') {
+    level = PINO_LEVELS[level as keyof typeof PINO_LEVELS] ?? PINO_LEVELS.info;
+  }
+  return {
+    ...logObject,
+    level: typeof level === 'number' ? level : PINO_LEVELS.info,
+    time: (logObject.time as number | undefined) ?? Date.now(),
+  };
+}
+
+/**
+ * Run the CLI: read stdin until it ends, then flush and exit
+ */
+async function main(): Promise<number> {
+  let cli: CliOptions;
+  try {
+    cli = parseCommandLine(process.argv.slice(2));
+  } catch (err) {
+    console.error(`pino-cloud-logging: ${(err as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (cli.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  // Failed writes are counted and the last error reported on exit, since
+  // a failed batch reports the same error for each of its entries
+  let failed = 0;
+  let lastError: Error | undefined;
+  const options: TransportOptions = {
+    ...cli.transportOptions,
+    defaultCallback: (err) => {
+      if (err) {
+        failed++;
+        lastError = err;
+      }
+    },
+  };
+
+  // Dry runs print the entries as the API would receive them
+  if (cli.dryRun) {
+    options.writer = {
+      async write(logName, entries) {
+        for (const entry of entries) {
+          process.stdout.write(JSON.stringify(captureEntry(logName, entry)) + '\n');
+        }
+      },
+    };
+  }
+
+  const logging = new LoggingCommon(options);
+  const input = createInterface({ input: process.stdin, crlfDelay: Infinity });
+
+  // Stop reading on signals, still flushing what has been read
+  const stop = () => input.close();
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  for await (const line of input) {
+    if (line.trim() === '') {
+      continue;
+    }
+    try {
+      await logging.writeLog(toLogObject(line));
+    } catch (err) {
+      // Write errors are counted by the default callback
+      lastError = err instanceof Error ? err : new Error(String(err));
+    }
+  }
+
+  const drained = await logging.shutdown();
+  if (!drained) {
+    console.error('pino-cloud-logging: flush timed out before all entries were written');
+  }
+  if (lastError) {
+    console.error(`pino-cloud-logging: ${failed} entries could not be written:`, lastError);
+  }
+  return drained && !lastError ? 0 : 1;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    console.error('pino-cloud-logging:', err);
+    process.exitCode = 1;
+  }
+);
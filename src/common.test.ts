@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LoggingCommon } from './common.js';
+import { MemorySink } from './testing/memory-sink.js';
+
+test('writes entries through a custom writer', async () => {
+  const sink = new MemorySink();
+  const logging = new LoggingCommon({ projectId: 'test', resource: { type: 'global' }, writer: sink });
+
+  await logging.writeLog({ level: 50, time: Date.now(), msg: 'failed' });
+  assert.equal(await logging.flush(), true);
+
+  assert.equal(sink.entries.length, 1);
+  assert.equal(sink.entries[0].severity, 'ERROR');
+  assert.equal(sink.entries[0].jsonPayload?.message, 'failed');
+  await logging.shutdown();
+});
+
+test('stops waiting for pending writes at the shutdown deadline', async () => {
+  const logging = new LoggingCommon({
+    projectId: 'test',
+    resource: { type: 'global' },
+    writer: { write: () => new Promise(() => {}) },
+  });
+
+  await logging.writeLog({ level: 30, time: Date.now(), msg: 'stuck' });
+
+  const start = Date.now();
+  assert.equal(await logging.shutdown(100), false);
+  assert.ok(Date.now() - start < 1000);
+  await assert.rejects(
+    logging.writeLog({ level: 30, time: Date.now(), msg: 'late' }),
+    /cannot write after shutdown/
+  );
+});
+
+test('bounds dedup rollups waiting for queue space by the shutdown deadline', async () => {
+  let writes = 0;
+  const logging = new LoggingCommon({
+    projectId: 'test',
+    resource: { type: 'global' },
+    writer: {
+      write: async () => {
+        writes++;
+        throw Object.assign(new Error('unavailable'), { code: 14 });
+      },
+    },
+    batching: { maxEntries: 1 },
+    retry: { overflowPolicy: 'block', maxQueueSize: 1, initialDelayMs: 5000 },
+    dedup: true,
+  });
+
+  // The first entry fills the retry queue; its repeat waits for a rollup
+  await logging.writeLog({ level: 30, time: Date.now(), msg: 'repeated' });
+  await logging.writeLog({ level: 30, time: Date.now(), msg: 'repeated' });
+  while (logging.getWriteStats().queued === 0) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+
+  const start = Date.now();
+  assert.equal(await logging.shutdown(200), false);
+  assert.ok(Date.now() - start < 1000);
+  assert.equal(writes, 1);
+});
@@ -1,20 +1,122 @@
-import { Logging, Log, LogSync, Entry } from '@google-cloud/logging';
+import { Logging, Log, LogSync, Entry, type LoggingOptions } from '@google-cloud/logging';
 import type { LogEntry } from '@google-cloud/logging/build/src/entry.js';
+import { UserRefreshClient } from 'google-auth-library';
 import {
   type TransportOptions,
   type PinoLogObject,
   type CloudLoggingSeverity,
   type Callback,
   type ServiceContext,
-  PINO_TO_CLOUD_SEVERITY,
+  type MonitoredResource,
+  type TraceContext,
+  type TraceContextProvider,
+  type WriteStats,
+  type LogEntryParts,
+  type BeforeWriteHook,
+  type SerializedError,
+  type LogRoute,
+  type LogWriter,
+  type LoggingMetrics,
+  type LoggingHealth,
+  type RequestLogDetails,
   LOGGING_TRACE_KEY,
   LOGGING_SPAN_KEY,
   LOGGING_SAMPLED_KEY,
+  LOGGING_SOURCE_LOCATION_KEY,
+  LOGGING_OPERATION_KEY,
+  LOGGING_INSERT_ID_KEY,
 } from './types.js';
-import { getCurrentTraceFromAgent } from './trace.js';
+import { defaultTraceContextProvider } from './trace.js';
+import { EntryBatcher } from './batch.js';
+import { isRetryableError } from './retry.js';
+import { DiskSpool, type SpooledEntry } from './spool.js';
+import { detectResource } from './resource.js';
+import { createSeverityMapper, isErrorSeverity } from './severity.js';
+import { composeEntry, composeMessage, truncateEntry, type TruncatableEntry } from './truncate.js';
+import { createRedactor } from './redact.js';
+import { isErrorLike, serializeError } from './errors.js';
+import { createRouter } from './routing.js';
+import { StructuredWriter } from './structured.js';
+import { LogSampler } from './sampling.js';
+import { Deduplicator } from './dedup.js';
+import { MetricsRecorder } from './metrics.js';
+import { InsertIdGenerator } from './insert-id.js';
 
 const DEFAULT_LOG_NAME = 'pino_log';
 const DEFAULT_MAX_ENTRY_SIZE = 250000; // 250KB
+const DEFAULT_FLUSH_TIMEOUT_MS = 5000;
+const DEFAULT_ERROR_KEYS = ['err', 'error'];
+const EMULATOR_PROJECT_ID = 'emulator-project';
+const DEFAULT_SAMPLING_SUMMARY_INTERVAL_MS = 60000;
+const DEFAULT_METRICS_INTERVAL_MS = 60000;
+
+/**
+ * Label marking the summary entries of suppressed entries
+ */
+const SAMPLING_SUMMARY_LABEL = 'sampling_summary';
+
+/**
+ * Wait for a promise until a deadline
+ *
+ * @param promise - The promise to wait for
+ * @param deadline - Time in milliseconds since the epoch
+ * @returns True if the promise settled before the deadline
+ */
+async function settleBefore(promise: Promise<unknown>, deadline: number): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const expired = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), Math.max(0, deadline - Date.now()));
+  });
+
+  try {
+    return await Promise.race([promise.then(() => true), expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Sends a batch of entries, given its estimated serialized size
+ */
+type EntrySender = (entries: Entry[], bytes: number) => Promise<void>;
+
+/**
+ * A log entries are written to, with its batcher and sender in API mode
+ */
+interface LogTarget {
+  log: Log | LogSync;
+  batcher?: EntryBatcher;
+  send?: EntrySender;
+}
+
+/**
+ * Client options missing from LoggingOptions, passed through to the
+ * underlying API client
+ */
+interface EmulatorClientOptions extends LoggingOptions {
+  authClient: UserRefreshClient;
+  port: number;
+  protocol: 'http';
+  fallback: 'rest';
+}
+
+/**
+ * Client options sending API requests to a Cloud Logging emulator
+ * over plain HTTP, with a fixed access token instead of credentials
+ */
+function emulatorClientOptions(host: string): EmulatorClientOptions {
+  const url = new URL(`http://${host}`);
+  // Without an expiry, the token is never refreshed
+  const authClient = new UserRefreshClient();
+  authClient.setCredentials({ access_token: 'emulator' });
+  return {
+    apiEndpoint: url.hostname,
+    port: Number(url.port) || 80,
+    protocol: 'http',
+    fallback: 'rest',
+    authClient,
+  };
+}
 
 /**
  * Core logging engine that handles transformation from Pino logs
@@ -22,43 +124,138 @@ const DEFAULT_MAX_ENTRY_SIZE = 250000; // 250KB
  */
 export class LoggingCommon {
   private logging: Logging;
-  private cloudLog: Log | LogSync;
+  private logName: string;
+  private targets = new Map<string, LogTarget>();
+  private selectRoute?: (logObject: PinoLogObject) => LogRoute | undefined;
   private projectId?: string;
+  private resource?: MonitoredResource;
+  private resourceDetection?: Promise<void>;
   private serviceContext?: ServiceContext;
+  private traceContextProvider: TraceContextProvider;
   private labels?: Record<string, string>;
   private prefix?: string;
+  private severityMapper: (level: number) => CloudLoggingSeverity;
   private redirectToStdout: boolean;
   private useMessageField: boolean;
   private maxEntrySize: number;
+  private flushTimeoutMs: number;
+  private useSourceLocation: boolean;
+  private errorKeys: string[];
+  private redact?: (entry: LogEntryParts) => void;
+  private beforeWrite: BeforeWriteHook[];
+  private batching?: TransportOptions['batching'];
+  private retry?: TransportOptions['retry'];
+  private spool?: DiskSpool;
+  private writer?: LogWriter;
+  private structuredWriter?: StructuredWriter;
   private defaultCallback?: Callback;
+  private sampler?: LogSampler;
+  private summaryTimer?: NodeJS.Timeout;
+  private deduplicator?: Deduplicator;
+  private metrics = new MetricsRecorder();
+  private insertIds = new InsertIdGenerator();
+  private onMetrics?: (metrics: LoggingMetrics) => void;
+  private metricsTimer?: NodeJS.Timeout;
+  private closed = false;
 
   constructor(options: TransportOptions = {}) {
-    this.projectId = options.projectId;
+    const emulatorHost = options.emulatorHost ?? process.env.LOGGING_EMULATOR_HOST;
+
+    // The emulator accepts any project, so tests need not configure one
+    this.projectId = options.projectId ?? (emulatorHost ? EMULATOR_PROJECT_ID : undefined);
+    this.resource = options.resource;
     this.serviceContext = options.serviceContext;
+    this.traceContextProvider = options.traceContextProvider ?? defaultTraceContextProvider;
     this.labels = options.labels;
     this.prefix = options.prefix;
+    this.severityMapper = createSeverityMapper(options);
     this.redirectToStdout = options.redirectToStdout ?? false;
     this.useMessageField = options.useMessageField ?? true;
     this.maxEntrySize = options.maxEntrySize ?? DEFAULT_MAX_ENTRY_SIZE;
+    this.flushTimeoutMs = options.flushTimeoutMs ?? DEFAULT_FLUSH_TIMEOUT_MS;
+    this.useSourceLocation = options.useSourceLocation ?? false;
+    this.errorKeys = options.errorKeys ?? DEFAULT_ERROR_KEYS;
+    this.redact = options.redact ? createRedactor(options.redact) : undefined;
+    this.beforeWrite = options.beforeWrite ? [options.beforeWrite].flat() : [];
+    this.selectRoute = options.routes?.length
+      ? createRouter(options.routes, options.customLevels)
+      : undefined;
+    this.batching = options.batching;
+    this.retry = options.retry;
+    this.writer = options.writer;
+    this.structuredWriter =
+      !this.writer && this.redirectToStdout && options.fastStdout
+        ? new StructuredWriter(options.destination)
+        : undefined;
     this.defaultCallback = options.defaultCallback;
+    if (options.spool && !this.redirectToStdout) {
+      this.spool = new DiskSpool(
+        options.spool,
+        (logName, entries, bytes) => this.replaySpooled(logName, entries, bytes),
+        this.batching?.maxEntries,
+        (err, count) => this.reportFailure(err, count)
+      );
+    }
 
     // Initialize Cloud Logging client
     this.logging = new Logging({
-      projectId: options.projectId,
+      projectId: this.projectId,
       credentials: options.credentials,
       keyFilename: options.keyFilename,
+      ...(emulatorHost && emulatorClientOptions(emulatorHost)),
     });
 
-    const logName = options.logName ?? DEFAULT_LOG_NAME;
+    // Detect the monitored resource in the background; writes wait for it
+    if (!this.resource && options.detectResource) {
+      const detectionOptions =
+        typeof options.detectResource === 'object' ? options.detectResource : {};
+      this.resourceDetection = detectResource(detectionOptions, options.projectId).then(
+        (resource) => {
+          this.resource = resource;
+          this.resourceDetection = undefined;
+        },
+        () => {
+          this.resourceDetection = undefined;
+        }
+      );
+    }
 
-    // Use LogSync for stdout mode, Log for API mode
-    if (this.redirectToStdout) {
-      this.cloudLog = this.logging.logSync(logName);
-    } else {
-      this.cloudLog = this.logging.log(logName, {
-        removeCircular: true,
-        maxEntrySize: this.maxEntrySize,
-      });
+    this.logName = options.logName ?? DEFAULT_LOG_NAME;
+    if (!this.structuredWriter) {
+      this.getTarget(this.logName);
+    }
+
+    if (options.sampling) {
+      this.sampler = new LogSampler(options.sampling);
+      const interval = options.sampling.summaryIntervalMs ?? DEFAULT_SAMPLING_SUMMARY_INTERVAL_MS;
+      if (interval > 0) {
+        this.summaryTimer = setInterval(() => {
+          this.writeSamplingSummary().catch(() => {
+            // Failed summaries are reported through the default callback
+          });
+        }, interval);
+        this.summaryTimer.unref();
+      }
+    }
+
+    if (options.dedup) {
+      this.deduplicator = new Deduplicator(
+        typeof options.dedup === 'object' ? options.dedup : {},
+        this.errorKeys,
+        (logObject, severity) =>
+          this.writeLogEntry(logObject, severity, this.extractTraceInfo(logObject))
+      );
+    }
+
+    if (options.openTelemetryMetrics && !this.metrics.enableOpenTelemetry(() => this.getMetrics())) {
+      console.warn('pino-cloud-logging: openTelemetryMetrics requires @opentelemetry/api');
+    }
+
+    this.onMetrics = options.onMetrics;
+    const metricsInterval = options.metricsIntervalMs ?? DEFAULT_METRICS_INTERVAL_MS;
+    if (this.onMetrics && metricsInterval > 0) {
+      this.metricsTimer = setInterval(() => this.reportMetrics(), metricsInterval);
+      this.metricsTimer.unref();
     }
   }
 
@@ -73,20 +270,27 @@ export class LoggingCommon {
     return this.projectId;
   }
 
+  /**
+   * Get the monitored resource applied to entries, waiting for
+   * auto-detection to finish if it is still running
+   */
+  async getResource(): Promise<MonitoredResource | undefined> {
+    if (this.resourceDetection) {
+      await this.resourceDetection;
+    }
+    return this.resource;
+  }
+
   /**
    * Map Pino numeric level to Cloud Logging severity
    */
   private mapLevel(level: number): CloudLoggingSeverity {
-    // Find the closest matching level
-    if (level >= 60) return 'CRITICAL';
-    if (level >= 50) return 'ERROR';
-    if (level >= 40) return 'WARNING';
-    if (level >= 30) return 'INFO';
-    return 'DEBUG';
+    return this.severityMapper(level);
   }
 
   /**
-   * Extract and format the log message
+   * Extract and format the log message. The error stack is kept
+   * separate so that it can be truncated independently.
    */
   private formatMessage(logObject: PinoLogObject): string {
     let message = logObject.msg ?? '';
@@ -96,27 +300,15 @@ export class LoggingCommon {
       message = `[${this.prefix}] ${message}`;
     }
 
-    // Append error stack if present
-    if (logObject.err?.stack) {
-      message = message ? `${message}\n${logObject.err.stack}` : logObject.err.stack;
-    }
-
     return message;
   }
 
   /**
-   * Extract trace information from the log object or trace agent
+   * Extract trace information from the log object, falling back to
+   * the trace context provider (OpenTelemetry or trace agent by default)
    */
-  private extractTraceInfo(logObject: PinoLogObject): {
-    trace?: string;
-    spanId?: string;
-    traceSampled?: boolean;
-  } {
-    const result: {
-      trace?: string;
-      spanId?: string;
-      traceSampled?: boolean;
-    } = {};
+  private extractTraceInfo(logObject: PinoLogObject): TraceContext {
+    const result: TraceContext = {};
 
     // First, check for trace info in the log object
     if (logObject[LOGGING_TRACE_KEY]) {
@@ -131,22 +323,58 @@ export class LoggingCommon {
       result.traceSampled = logObject[LOGGING_SAMPLED_KEY];
     }
 
-    // Fall back to trace agent if no trace info in log object
+    // Fall back to the provider if no trace info in log object
     if (!result.trace) {
-      const agentTrace = getCurrentTraceFromAgent();
-      if (agentTrace) {
-        result.trace = agentTrace;
+      const provided = this.traceContextProvider(this.projectId);
+      if (provided?.trace) {
+        result.trace = provided.trace;
+        result.spanId ??= provided.spanId;
+        result.traceSampled ??= provided.traceSampled;
       }
     }
 
     return result;
   }
 
+  /**
+   * Extract the source location from the log object when enabled
+   */
+  private extractSourceLocation(logObject: PinoLogObject): LogEntry['sourceLocation'] {
+    const location = logObject[LOGGING_SOURCE_LOCATION_KEY];
+    if (!this.useSourceLocation || typeof location !== 'object' || location === null) {
+      return undefined;
+    }
+
+    return {
+      file: location.file,
+      line: location.line === undefined ? undefined : String(location.line),
+      function: location.function,
+    };
+  }
+
+  /**
+   * Serialize the errors found under the configured error keys,
+   * in the order of the keys
+   */
+  private serializeErrors(logObject: PinoLogObject): Array<{ key: string; error: SerializedError }> {
+    const errors: Array<{ key: string; error: SerializedError }> = [];
+    for (const key of this.errorKeys) {
+      const value = logObject[key];
+      if (isErrorLike(value)) {
+        errors.push({ key, error: serializeError(value) });
+      }
+    }
+    return errors;
+  }
+
   /**
    * Build metadata object for the log entry, extracting
    * special fields that should be elevated to entry metadata
    */
-  private buildMetadata(logObject: PinoLogObject): Record<string, unknown> {
+  private buildMetadata(
+    logObject: PinoLogObject,
+    errors: Array<{ key: string; error: SerializedError }>
+  ): Record<string, unknown> {
     const metadata: Record<string, unknown> = {};
 
     // Copy all properties except special ones
@@ -156,12 +384,15 @@ export class LoggingCommon {
       'msg',
       'pid',
       'hostname',
-      'err',
       LOGGING_TRACE_KEY,
       LOGGING_SPAN_KEY,
       LOGGING_SAMPLED_KEY,
       'httpRequest',
       'labels',
+      ...errors.map(({ key }) => key),
+      LOGGING_OPERATION_KEY,
+      LOGGING_INSERT_ID_KEY,
+      ...(this.useSourceLocation ? [LOGGING_SOURCE_LOCATION_KEY] : []),
     ]);
 
     for (const [key, value] of Object.entries(logObject)) {
@@ -170,13 +401,17 @@ export class LoggingCommon {
       }
     }
 
-    // Include error info in metadata (without stack, which goes in message)
-    if (logObject.err) {
-      metadata.error = {
-        type: logObject.err.type,
-        message: logObject.err.message,
-      };
-    }
+    // Include the serialized errors; the first error's stack goes in the message
+    errors.forEach(({ key, error }, index) => {
+      let serialized = error;
+      if (index === 0 && this.useMessageField) {
+        const { stack: _stack, ...rest } = error;
+        serialized = rest;
+      }
+      // Errors logged as err appear as error in the payload
+      const target = key === 'err' && logObject.error === undefined ? 'error' : key;
+      metadata[target] = serialized;
+    });
 
     // Include process info
     if (logObject.pid) {
@@ -190,26 +425,52 @@ export class LoggingCommon {
   }
 
   /**
-   * Process a Pino log object and send it to Cloud Logging
+   * Process a Pino log object and send it to Cloud Logging.
+   * In API mode the entry is added to the current batch and the promise
+   * resolves once it is queued; callbacks fire when the batch is written.
    */
   async writeLog(logObject: PinoLogObject, callback?: Callback): Promise<void> {
     const severity = this.mapLevel(logObject.level);
-    const message = this.formatMessage(logObject);
     const traceInfo = this.extractTraceInfo(logObject);
-    const metadata = this.buildMetadata(logObject);
+
+    // Decide on sampling and repeats before any further work on the entry
+    if (
+      (this.sampler && !this.sampler.shouldWrite(severity, logObject, traceInfo)) ||
+      (this.deduplicator && !this.deduplicator.add(logObject, severity))
+    ) {
+      this.metrics.recordSuppressed();
+      this.notify(null, callback);
+      return;
+    }
+
+    await this.writeLogEntry(logObject, severity, traceInfo, callback);
+  }
+
+  /**
+   * Build the entry of a log object and write it
+   */
+  private async writeLogEntry(
+    logObject: PinoLogObject,
+    severity: CloudLoggingSeverity,
+    traceInfo: TraceContext,
+    callback?: Callback
+  ): Promise<void> {
+    const message = this.formatMessage(logObject);
+    const errors = this.serializeErrors(logObject);
+    const stack = errors[0]?.error.stack;
+    const metadata = this.buildMetadata(logObject, errors);
+    const sourceLocation = this.extractSourceLocation(logObject);
+    const route = this.selectRoute?.(logObject);
 
     // Build the entry data
     const entryData: Record<string, unknown> = {
       ...metadata,
     };
 
-    if (this.useMessageField && message) {
-      entryData.message = message;
-    }
-
-    // Merge labels from options and log object
+    // Merge labels from options, the route and the log object
     const labels = {
       ...this.labels,
+      ...route?.labels,
       ...logObject.labels,
     };
 
@@ -217,56 +478,68 @@ export class LoggingCommon {
     const entryMetadata: LogEntry = {
       severity: severity,
       timestamp: new Date(logObject.time),
+      resource: route?.resource ?? (await this.getResource()),
       labels: Object.keys(labels).length > 0 ? labels : undefined,
       trace: traceInfo.trace,
       spanId: traceInfo.spanId,
       traceSampled: traceInfo.traceSampled,
       httpRequest: logObject.httpRequest,
+      sourceLocation,
+      operation: logObject[LOGGING_OPERATION_KEY],
+      insertId: logObject[LOGGING_INSERT_ID_KEY] || undefined,
     };
 
-    // Add service context for error reporting if this is an error
-    if (
-      this.serviceContext &&
-      (severity === 'ERROR' || severity === 'CRITICAL') &&
-      logObject.err?.stack
-    ) {
-      (entryData as Record<string, unknown>).serviceContext = this.serviceContext;
-      // The @type field enables Error Reporting integration
-      (entryData as Record<string, unknown>)['@type'] =
-        'type.googleapis.com/google.devtools.clouderrorreporting.v1beta1.ReportedErrorEvent';
-    }
-
-    const entry = this.cloudLog.entry(entryMetadata, entryData);
-
-    // Write the entry
-    try {
-      if (this.redirectToStdout) {
-        // LogSync writes synchronously to stdout
-        (this.cloudLog as LogSync).write(entry);
-      } else {
-        // Log writes asynchronously to the API
-        await (this.cloudLog as Log).write(entry);
+    // Add service context for error reporting if this is an error. Errors
+    // without a stack are reported at the payload's report location, or
+    // else at the source location of the log call.
+    if (this.serviceContext && isErrorSeverity(severity)) {
+      const context = entryData.context as { reportLocation?: unknown } | undefined;
+      let reportLocation = context?.reportLocation;
+      if (!stack && !reportLocation && sourceLocation?.file) {
+        reportLocation = {
+          filePath: sourceLocation.file,
+          lineNumber: Number(sourceLocation.line),
+          functionName: sourceLocation.function,
+        };
+        entryData.context = { ...context, reportLocation };
       }
 
-      // Call callbacks
-      if (callback) {
-        callback(null);
-      }
-      if (this.defaultCallback) {
-        this.defaultCallback(null);
+      if (stack || reportLocation) {
+        entryData.serviceContext = this.serviceContext;
+        // The @type field enables Error Reporting integration
+        entryData['@type'] =
+          'type.googleapis.com/google.devtools.clouderrorreporting.v1beta1.ReportedErrorEvent';
       }
-    } catch (err) {
-      const error = err instanceof Error ? err : new Error(String(err));
+    }
 
-      if (callback) {
-        callback(error);
-      }
-      if (this.defaultCallback) {
-        this.defaultCallback(error);
-      }
+    const text = this.useMessageField
+      ? composeMessage(message, stack)
+      : undefined;
+    if (text) {
+      entryData.message = text;
+    }
 
-      throw error;
+    const transformed = this.transformEntry({ metadata: entryMetadata, data: entryData });
+    if (!transformed) {
+      this.metrics.recordSuppressed();
+      this.notify(null, callback);
+      return;
     }
+
+    // Enforce the entry size limit, truncating the message and the stack
+    // separately unless a hook has replaced the message
+    const { message: finalText, ...data } = transformed.data;
+    const parts: TruncatableEntry = { metadata: transformed.metadata, data };
+    if (text && finalText === text) {
+      parts.message = message;
+      parts.stack = stack;
+    } else if (typeof finalText === 'string') {
+      parts.message = finalText;
+    } else if (finalText !== undefined) {
+      data.message = finalText;
+    }
+
+    await this.writeEntry(route?.logName ?? this.logName, parts, callback);
   }
 
   /**
@@ -277,10 +550,12 @@ export class LoggingCommon {
     trace?: string,
     spanId?: string,
     traceSampled?: boolean,
-    latencyMs?: number
+    latencyMs?: number,
+    details: RequestLogDetails = {}
   ): Promise<void> {
+    const labels = { ...this.labels, ...details.labels };
     const entryMetadata: LogEntry = {
-      severity: 'INFO',
+      severity: details.severity ?? 'INFO',
       httpRequest: {
         ...httpRequest,
         latency: latencyMs
@@ -290,15 +565,411 @@ export class LoggingCommon {
       trace,
       spanId,
       traceSampled,
-      labels: this.labels,
+      labels: Object.keys(labels).length > 0 ? labels : undefined,
+      resource: await this.getResource(),
     };
 
-    const entry = this.cloudLog.entry(entryMetadata, {});
+    const transformed = this.transformEntry({
+      metadata: entryMetadata,
+      data: { ...details.payload },
+    });
+    if (!transformed) {
+      this.metrics.recordSuppressed();
+      return;
+    }
+
+    await this.writeEntry(this.logName, transformed);
+  }
+
+  /**
+   * Send all buffered entries and wait for pending API writes, including
+   * queued retries, to complete.
+   *
+   * @param timeoutMs - Optional deadline; entries still pending afterwards are kept
+   * @returns True if everything was written before the deadline
+   */
+  async flush(timeoutMs?: number): Promise<boolean> {
+    const batchers = [...this.targets.values()].flatMap(({ batcher }) => batcher ?? []);
+    if (batchers.length === 0) {
+      return true;
+    }
+
+    const drained = Promise.all(batchers.map((batcher) => batcher.flush()));
+    if (timeoutMs === undefined) {
+      await drained;
+      return true;
+    }
+    return settleBefore(drained, Date.now() + timeoutMs);
+  }
 
-    if (this.redirectToStdout) {
-      (this.cloudLog as LogSync).write(entry);
+  /**
+   * Flush pending writes and stop accepting new entries. Entries that could
+   * not be written before the deadline are dropped and their callbacks fail.
+   * Call this from process shutdown hooks (e.g. on SIGTERM).
+   *
+   * @param timeoutMs - Deadline for shutting down, including the final
+   *   dedup rollups and sampling summary. Default: flushTimeoutMs option
+   * @returns True if everything was written before the deadline
+   */
+  async shutdown(timeoutMs: number = this.flushTimeoutMs): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    clearInterval(this.summaryTimer);
+    clearInterval(this.metricsTimer);
+
+    // Rollups and summaries may wait for queue space with the 'block' policy
+    let inTime = await settleBefore(this.deduplicator?.flush() ?? Promise.resolve(), deadline);
+    const summary = this.writeSamplingSummary().catch(() => {
+      // Failed summaries are reported through the default callback
+    });
+    inTime = (await settleBefore(summary, deadline)) && inTime;
+
+    const drained = (await this.flush(Math.max(0, deadline - Date.now()))) && inTime;
+
+    this.closed = true;
+    const err = new Error('pino-cloud-logging: shut down before entries were written');
+    for (const { batcher } of this.targets.values()) {
+      batcher?.close(err);
+    }
+    this.structuredWriter?.close();
+    await this.spool?.close(Math.max(0, deadline - Date.now()));
+    this.reportMetrics();
+
+    return drained;
+  }
+
+  /**
+   * Counters for retried, spooled and dropped API writes, summed over
+   * all logs. All counters are zero in stdout mode.
+   */
+  getWriteStats(): WriteStats {
+    const stats: WriteStats = {
+      retried: 0,
+      queued: 0,
+      droppedOverflow: 0,
+      droppedRetriesExhausted: 0,
+      droppedNonRetryable: 0,
+      droppedShutdown: 0,
+      spooled: 0,
+      spoolQueued: 0,
+      droppedSpoolOverflow: 0,
+      droppedSpoolExpired: 0,
+    };
+
+    const sources = [...this.targets.values()].flatMap(({ batcher }) => batcher ?? []);
+    for (const source of [...sources, ...(this.spool ? [this.spool] : [])]) {
+      for (const [key, value] of Object.entries(source.getStats())) {
+        stats[key as keyof WriteStats] += value;
+      }
+    }
+    return stats;
+  }
+
+  /**
+   * Counters and gauges of the transport: entries and bytes written, write
+   * latency, failures by error code, retried, dropped and suppressed
+   * entries, and the current queue depth
+   */
+  getMetrics(): LoggingMetrics {
+    return this.metrics.getMetrics(this.getWriteStats(), this.getQueueDepth());
+  }
+
+  /**
+   * Health of the transport, derived from the outcome of recent writes
+   * and the retry queue. Use it for readiness checks.
+   */
+  getHealth(): LoggingHealth {
+    return this.metrics.getHealth(this.getWriteStats(), this.getQueueDepth(), this.closed);
+  }
+
+  /**
+   * Number of entries buffered or waiting to be retried, summed over all logs
+   */
+  private getQueueDepth(): number {
+    let depth = 0;
+    for (const { batcher } of this.targets.values()) {
+      depth += batcher?.getQueueDepth() ?? 0;
+    }
+    return depth;
+  }
+
+  /**
+   * Pass the current metrics to the onMetrics callback
+   */
+  private reportMetrics(): void {
+    if (!this.onMetrics) {
+      return;
+    }
+    try {
+      this.onMetrics(this.getMetrics());
+    } catch {
+      // Ignore errors thrown by user callbacks
+    }
+  }
+
+  /**
+   * Get the log with the given name, creating it and, in API mode,
+   * its batcher on first use
+   */
+  private getTarget(logName: string): LogTarget {
+    let target = this.targets.get(logName);
+    if (target) {
+      return target;
+    }
+
+    // Use LogSync for stdout mode, Log for API mode; a custom writer
+    // replaces both and is batched like the API
+    const writer = this.writer;
+    if (writer) {
+      const send = this.measureSend((entries) => writer.write(logName, entries));
+      target = {
+        log: this.logging.log(logName),
+        batcher: this.createBatcher(logName, send),
+        send,
+      };
+    } else if (this.redirectToStdout) {
+      target = { log: this.logging.logSync(logName) };
     } else {
-      await (this.cloudLog as Log).write(entry);
+      const log = this.logging.log(logName, {
+        removeCircular: true,
+        maxEntrySize: this.maxEntrySize,
+      });
+      const send = this.measureSend(async (entries) => {
+        await log.write(entries);
+      });
+      target = { log, batcher: this.createBatcher(logName, send), send };
+    }
+
+    this.targets.set(logName, target);
+    return target;
+  }
+
+  /**
+   * Wrap a send function to record the outcome of every attempt
+   */
+  private measureSend(send: (entries: Entry[]) => Promise<void>): EntrySender {
+    return async (entries, bytes) => {
+      const start = performance.now();
+      try {
+        await send(entries);
+      } catch (err) {
+        this.metrics.recordFailure(err, entries.length);
+        throw err;
+      }
+      this.metrics.recordWrite(entries.length, bytes, performance.now() - start);
+    };
+  }
+
+  /**
+   * Create a batcher sending entries with the given function. With a
+   * spool, batches failing with a retryable error are spooled instead
+   * of retried in memory, and batches join the spool while it replays
+   * to keep their order.
+   */
+  private createBatcher(logName: string, send: EntrySender): EntryBatcher {
+    const spool = this.spool;
+    const spooledSend: EntrySender = spool
+      ? async (entries, bytes) => {
+          const spooled = entries.map(
+            (entry): SpooledEntry => ({ logName, metadata: entry.metadata, data: entry.data })
+          );
+          if (spool.active) {
+            try {
+              await spool.append(spooled);
+              return;
+            } catch {
+              // Send directly if the spool cannot be written
+            }
+          }
+          try {
+            await send(entries, bytes);
+          } catch (err) {
+            if (!isRetryableError(err)) {
+              throw err;
+            }
+            // Fall back to the in-memory retry queue if the spool fails
+            await spool.append(spooled).catch(() => {
+              throw err;
+            });
+          }
+        }
+      : send;
+
+    return new EntryBatcher(spooledSend, this.batching, this.retry, (err, count) =>
+      this.reportFailure(err, count)
+    );
+  }
+
+  /**
+   * Report entries that could not be written
+   */
+  private reportFailure(err: Error, count: number): void {
+    // Without a default callback, failed writes would go unnoticed
+    if (!this.defaultCallback) {
+      console.error(`pino-cloud-logging: Failed to write ${count} log entries:`, err);
+    }
+  }
+
+  /**
+   * Replay spooled entries of a log through its sender
+   */
+  private async replaySpooled(logName: string, spooled: SpooledEntry[], bytes: number): Promise<void> {
+    const entries = spooled.map(({ metadata, data }) =>
+      this.logging.entry(
+        { ...metadata, timestamp: metadata.timestamp ? new Date(metadata.timestamp as string) : undefined },
+        data
+      )
+    );
+    await (this.getTarget(logName).send as EntrySender)(entries, bytes);
+  }
+
+  /**
+   * Create a log entry. In stdout mode the client library leaves
+   * sourceLocation and operation out of the structured JSON, so they
+   * are added back.
+   */
+  private createEntry(metadata: LogEntry, data: Record<string, unknown>): Entry {
+    const entry = this.logging.entry(metadata, data);
+
+    if (this.redirectToStdout && (metadata.sourceLocation || metadata.operation)) {
+      const toStructuredJSON = entry.toStructuredJSON.bind(entry);
+      entry.toStructuredJSON = (...args) => ({
+        ...toStructuredJSON(...args),
+        [LOGGING_SOURCE_LOCATION_KEY]: metadata.sourceLocation ?? undefined,
+        [LOGGING_OPERATION_KEY]: metadata.operation ?? undefined,
+      });
+    }
+
+    return entry;
+  }
+
+  /**
+   * Write a summary entry counting the entries suppressed by sampling
+   * and rate limits since the previous summary, if there were any
+   */
+  private async writeSamplingSummary(): Promise<void> {
+    const summary = this.sampler?.takeSummary();
+    if (!summary || this.closed) {
+      return;
+    }
+
+    const { sinceMs, ...suppressed } = summary;
+    const entryMetadata: LogEntry = {
+      severity: 'NOTICE',
+      timestamp: new Date(),
+      labels: { ...this.labels, [SAMPLING_SUMMARY_LABEL]: 'true' },
+      resource: await this.getResource(),
+    };
+    const entryData = {
+      message: `Suppressed ${summary.total} log entries in the last ${Math.round(sinceMs / 1000)}s`,
+      suppressed,
+    };
+
+    const transformed = this.transformEntry({ metadata: entryMetadata, data: entryData });
+    if (!transformed) {
+      return;
+    }
+
+    await this.writeEntry(this.logName, transformed);
+  }
+
+  /**
+   * Apply redaction and the beforeWrite hooks to an entry
+   *
+   * @returns The entry to write, or null if a hook dropped it
+   */
+  private transformEntry(entry: LogEntryParts): LogEntryParts | null {
+    this.redact?.(entry);
+
+    let current = entry;
+    for (const hook of this.beforeWrite) {
+      const result = hook(current);
+      if (result === false) {
+        return null;
+      }
+      if (result) {
+        current = result;
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Enforce the entry size limit, then write the entry to stdout or add
+   * it to the current batch of its log in API mode. Batched entries report
+   * their outcome through the callbacks once the batch has been written.
+   */
+  private async writeEntry(
+    logName: string,
+    parts: TruncatableEntry,
+    callback?: Callback
+  ): Promise<void> {
+    if (this.closed) {
+      throw new Error('pino-cloud-logging: cannot write after shutdown');
+    }
+
+    // Assign the id here, in the order entries are batched, so ids increase
+    // within each batch. Retries and spool replays reuse it.
+    parts.metadata.insertId ||= this.insertIds.next();
+
+    // Returns the number of bytes written, 0 if unknown
+    let write: () => number;
+    if (this.structuredWriter) {
+      // Fast stdout mode skips the client library's entry objects, and
+      // measures the written line so entries within the limit are only
+      // serialized once
+      const writer = this.structuredWriter;
+      const formattedName = this.projectId
+        ? `projects/${this.projectId}/logs/${encodeURIComponent(logName)}`
+        : undefined;
+      write = () => {
+        let line = writer.format(parts, formattedName);
+        let bytes = Buffer.byteLength(line);
+        if (bytes > this.maxEntrySize && truncateEntry(parts, this.maxEntrySize)) {
+          line = writer.format(parts, formattedName);
+          bytes = Buffer.byteLength(line);
+        }
+        writer.write(line);
+        return bytes;
+      };
+    } else {
+      truncateEntry(parts, this.maxEntrySize);
+      const { metadata, data } = composeEntry(parts);
+      const { log, batcher } = this.getTarget(logName);
+      const entry = this.createEntry(metadata, data);
+      if (batcher) {
+        await batcher.add(entry, (err) => this.notify(err, callback));
+        return;
+      }
+      // LogSync writes synchronously to stdout
+      write = () => {
+        (log as LogSync).write(entry);
+        return 0;
+      };
+    }
+
+    const start = performance.now();
+    try {
+      const bytes = write();
+      this.metrics.recordWrite(1, bytes, performance.now() - start);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      this.metrics.recordFailure(error, 1);
+      this.notify(error, callback);
+      throw error;
+    }
+
+    this.notify(null, callback);
+  }
+
+  /**
+   * Invoke the per-call and default callbacks with the result of a write
+   */
+  private notify(err: Error | null, callback?: Callback): void {
+    if (callback) {
+      callback(err);
+    }
+    if (this.defaultCallback) {
+      this.defaultCallback(err);
     }
   }
 }
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LoggingCommon } from './common.js';
+import { Deduplicator } from './dedup.js';
+import { MemorySink } from './testing/memory-sink.js';
+import type { PinoLogObject } from './types.js';
+
+/**
+ * A deduplicator collecting its rollup entries
+ */
+function deduplicator(windowMs: number, maxGroups?: number) {
+  const rollups: PinoLogObject[] = [];
+  const dedup = new Deduplicator({ windowMs, maxGroups }, ['err'], async (logObject) => {
+    rollups.push(logObject);
+  });
+  return { dedup, rollups };
+}
+
+test('writes the first entry and rolls up its repeats', async () => {
+  const { dedup, rollups } = deduplicator(60000);
+  const failed = (time: number, fields: Record<string, unknown> = {}): PinoLogObject => ({
+    level: 50,
+    time,
+    msg: 'failed',
+    err: { type: 'TypeError' },
+    ...fields,
+  });
+
+  assert.equal(dedup.add(failed(1000), 'ERROR'), true);
+  assert.equal(dedup.add(failed(2000), 'ERROR'), false);
+  assert.equal(dedup.add(failed(3000, { n: 3 }), 'ERROR'), false);
+  // Another error type, severity or message is a group of its own
+  assert.equal(dedup.add(failed(3000, { err: { type: 'RangeError' } }), 'ERROR'), true);
+  assert.equal(dedup.add(failed(3000, { level: 40 }), 'WARNING'), true);
+  assert.equal(dedup.add(failed(3000, { msg: 'other' }), 'ERROR'), true);
+
+  await dedup.flush();
+  assert.deepEqual(rollups, [
+    {
+      ...failed(3000, { n: 3 }),
+      repeatCount: 2,
+      firstTimestamp: new Date(1000).toISOString(),
+      lastTimestamp: new Date(3000).toISOString(),
+    },
+  ]);
+
+  // Flushing closes the windows
+  assert.equal(dedup.add(failed(4000), 'ERROR'), true);
+});
+
+test('closes windows after windowMs', async () => {
+  const { dedup, rollups } = deduplicator(50);
+  dedup.add({ level: 30, time: 1, msg: 'tick' }, 'INFO');
+  dedup.add({ level: 30, time: 2, msg: 'tick' }, 'INFO');
+  await new Promise((resolve) => setTimeout(resolve, 150));
+
+  assert.equal(rollups.length, 1);
+  assert.equal(rollups[0].repeatCount, 1);
+  assert.equal(dedup.add({ level: 30, time: 3, msg: 'tick' }, 'INFO'), true);
+  await dedup.flush();
+});
+
+test('writes entries beyond maxGroups without deduplication', async () => {
+  const { dedup, rollups } = deduplicator(60000, 1);
+  dedup.add({ level: 30, time: 1, msg: 'a' }, 'INFO');
+  assert.equal(dedup.add({ level: 30, time: 1, msg: 'b' }, 'INFO'), true);
+  assert.equal(dedup.add({ level: 30, time: 1, msg: 'b' }, 'INFO'), true);
+  await dedup.flush();
+  assert.deepEqual(rollups, []);
+});
+
+test('rejects a window that is not positive', () => {
+  assert.throws(() => deduplicator(0), /windowMs must be positive/);
+});
+
+test('writes rollup entries on shutdown', async () => {
+  const sink = new MemorySink();
+  const logging = new LoggingCommon({
+    projectId: 'test',
+    resource: { type: 'global' },
+    writer: sink,
+    dedup: true,
+  });
+
+  for (let i = 0; i < 3; i++) {
+    await logging.writeLog({ level: 40, time: Date.now(), msg: 'disk almost full' });
+  }
+  await logging.writeLog({ level: 30, time: Date.now(), msg: 'done' });
+  await logging.shutdown();
+
+  assert.deepEqual(
+    sink.entries.map(({ severity, jsonPayload: data }) => [severity, data?.message, data?.repeatCount]),
+    [
+      ['WARNING', 'disk almost full', undefined],
+      ['INFO', 'done', undefined],
+      ['WARNING', 'disk almost full', 2],
+    ]
+  );
+  assert.equal(logging.getMetrics().entriesSuppressed, 2);
+});
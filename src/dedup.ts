@@ -0,0 +1,128 @@
+/**
+ * Suppression of repeated log entries
+ */
+
+import type { CloudLoggingSeverity, DedupOptions, PinoLogObject } from './types.js';
+
+const DEFAULT_WINDOW_MS = 60000;
+const DEFAULT_MAX_GROUPS = 1000;
+
+/**
+ * Writes the rollup entry of a group of duplicates
+ */
+export type RollupWriter = (logObject: PinoLogObject, severity: CloudLoggingSeverity) => Promise<void>;
+
+/**
+ * Duplicates of an entry seen within the current window
+ */
+interface DuplicateGroup {
+  severity: CloudLoggingSeverity;
+  firstTime: number;
+  repeatCount: number;
+  last?: PinoLogObject;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Get the type of the first error in a log object, e.g. 'TypeError'
+ */
+function errorType(logObject: PinoLogObject, errorKeys: string[]): string {
+  for (const key of errorKeys) {
+    const value = logObject[key];
+    if (typeof value === 'object' && value !== null) {
+      const error = value as { type?: unknown; name?: unknown };
+      if (typeof error.type === 'string') {
+        return error.type;
+      }
+      if (typeof error.name === 'string') {
+        return error.name;
+      }
+    }
+  }
+  return '';
+}
+
+/**
+ * Groups entries with the same severity, message and error type. The first
+ * entry of a group is written immediately; repeats within the window are
+ * suppressed and reported in a single rollup entry when the window closes.
+ */
+export class Deduplicator {
+  private windowMs: number;
+  private maxGroups: number;
+  private errorKeys: string[];
+  private writeRollup: RollupWriter;
+  private groups = new Map<string, DuplicateGroup>();
+
+  constructor(options: DedupOptions, errorKeys: string[], writeRollup: RollupWriter) {
+    this.windowMs = options.windowMs ?? DEFAULT_WINDOW_MS;
+    this.maxGroups = options.maxGroups ?? DEFAULT_MAX_GROUPS;
+    this.errorKeys = errorKeys;
+    this.writeRollup = writeRollup;
+
+    if (!(this.windowMs > 0)) {
+      throw new Error('pino-cloud-logging: dedup windowMs must be positive');
+    }
+  }
+
+  /**
+   * Record an entry
+   *
+   * @param logObject - The log object
+   * @param severity - Severity of the entry
+   * @returns True if the entry should be written, false for a suppressed repeat
+   */
+  add(logObject: PinoLogObject, severity: CloudLoggingSeverity): boolean {
+    const key = `${severity}\0${logObject.msg ?? ''}\0${errorType(logObject, this.errorKeys)}`;
+
+    const group = this.groups.get(key);
+    if (group) {
+      group.repeatCount++;
+      group.last = logObject;
+      return false;
+    }
+
+    // Beyond the group limit, new messages are written without deduplication
+    if (this.groups.size < this.maxGroups) {
+      const timer = setTimeout(() => this.close(key), this.windowMs);
+      timer.unref();
+      this.groups.set(key, { severity, firstTime: logObject.time, repeatCount: 0, timer });
+    }
+    return true;
+  }
+
+  /**
+   * Close all windows, writing the rollup entries of repeated entries
+   */
+  async flush(): Promise<void> {
+    await Promise.all([...this.groups.keys()].map((key) => this.close(key)));
+  }
+
+  /**
+   * Close the window of a group, writing its rollup entry if the entry was repeated
+   */
+  private async close(key: string): Promise<void> {
+    const group = this.groups.get(key);
+    if (!group) {
+      return;
+    }
+    clearTimeout(group.timer);
+    this.groups.delete(key);
+
+    if (!group.last) {
+      return;
+    }
+
+    try {
+      const rollup: PinoLogObject = {
+        ...group.last,
+        repeatCount: group.repeatCount,
+        firstTimestamp: new Date(group.firstTime).toISOString(),
+        lastTimestamp: new Date(group.last.time).toISOString(),
+      };
+      await this.writeRollup(rollup, group.severity);
+    } catch {
+      // Failed rollups are reported through the default callback
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isErrorLike, normalizeStack, serializeError } from './errors.js';
+
+test('recognizes errors and errors serialized by Pino', () => {
+  assert.equal(isErrorLike(new Error('x')), true);
+  assert.equal(isErrorLike({ type: 'Error', message: 'x', stack: 'Error: x' }), true);
+  assert.equal(isErrorLike({ msg: 'x' }), false);
+  assert.equal(isErrorLike(['x']), false);
+});
+
+test('normalizes stacks to the format Error Reporting parses', () => {
+  assert.equal(
+    normalizeStack('at f (a.js:1:1)\r\n\tat g (b.js:2:2)', 'TypeError', 'bad'),
+    'TypeError: bad\n    at f (a.js:1:1)\n    at g (b.js:2:2)'
+  );
+  assert.equal(
+    normalizeStack('Error: outer\n    at f (a.js:1:1)\ncaused by: Error: inner\n    at g (b.js:2:2)'),
+    'Error: outer\n    at f (a.js:1:1)'
+  );
+});
+
+test('serializes the cause chain and custom properties', () => {
+  const inner = Object.assign(new TypeError('inner'), { code: 'E_INNER' });
+  const outer = new Error('outer', { cause: inner });
+
+  const serialized = serializeError(outer);
+  assert.equal(serialized.type, 'Error');
+  assert.equal(serialized.message, 'outer');
+  assert.match(serialized.stack!, /^Error: outer\n {4}at /);
+  const cause = serialized.cause as Record<string, unknown>;
+  assert.equal(cause.type, 'TypeError');
+  assert.equal(cause.message, 'inner');
+  assert.equal(cause.code, 'E_INNER');
+});
+
+test('serializes non-error causes as they are', () => {
+  assert.deepEqual(serializeError(new Error('x', { cause: { reason: 'y' } })).cause, { reason: 'y' });
+});
+
+test('parses cause stacks appended by Pino', () => {
+  const serialized = serializeError({
+    type: 'Error',
+    message: 'outer',
+    stack:
+      'Error: outer\n    at f (a.js:1:1)\n' +
+      'caused by: RangeError: middle\n    at g (b.js:2:2)\n' +
+      'caused by: Error: inner',
+  });
+
+  const middle = serialized.cause as Record<string, unknown>;
+  assert.equal(middle.type, 'RangeError');
+  assert.equal(middle.message, 'middle');
+  assert.equal(middle.stack, 'RangeError: middle\n    at g (b.js:2:2)');
+  assert.deepEqual(middle.cause, { type: 'Error', message: 'inner', stack: 'Error: inner' });
+});
+
+test('serializes the errors of an AggregateError', () => {
+  const serialized = serializeError(
+    new AggregateError([new Error('first'), new RangeError('second'), 'third'], 'all failed')
+  );
+
+  assert.equal(serialized.type, 'AggregateError');
+  assert.equal(serialized.message, 'all failed');
+  const errors = serialized.errors as Array<Record<string, unknown> | string>;
+  assert.equal((errors[0] as Record<string, unknown>).message, 'first');
+  assert.equal((errors[1] as Record<string, unknown>).type, 'RangeError');
+  assert.equal(errors[2], 'third');
+});
+
+test('serializes the aggregateErrors of errors serialized by Pino', () => {
+  const serialized = serializeError({
+    type: 'AggregateError',
+    message: 'all failed',
+    aggregateErrors: [{ type: 'Error', message: 'first' }],
+  });
+  assert.deepEqual(serialized.errors, [{ type: 'Error', message: 'first' }]);
+  assert.equal('aggregateErrors' in serialized, false);
+});
+
+test('stops at circular and deeply nested causes', () => {
+  const circular = new Error('a') as Error & { cause?: unknown };
+  circular.cause = circular;
+  assert.equal(serializeError(circular).cause, '[Circular]');
+
+  let deep = new Error('0');
+  for (let i = 1; i <= 15; i++) {
+    deep = new Error(String(i), { cause: deep });
+  }
+  let current: unknown = serializeError(deep);
+  let depth = 0;
+  while (typeof current === 'object' && current !== null) {
+    current = (current as Record<string, unknown>).cause;
+    depth++;
+  }
+  assert.equal(current, '[Truncated]');
+  assert.equal(depth, 10);
+});
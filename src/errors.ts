@@ -0,0 +1,153 @@
+/**
+ * Error serialization for Cloud Logging and Error Reporting
+ */
+
+import type { SerializedError } from './types.js';
+
+/**
+ * Maximum depth of nested causes and aggregated errors
+ */
+const MAX_ERROR_DEPTH = 10;
+
+/**
+ * Separator Pino's error serializer uses to append cause stacks
+ */
+const CAUSED_BY = /\ncaused by: /i;
+
+const STACK_FRAME = /^\s*at\s/;
+
+/**
+ * Properties with a dedicated place in the serialized error
+ */
+const RESERVED_KEYS = new Set(['type', 'name', 'message', 'stack', 'cause', 'errors', 'aggregateErrors']);
+
+/**
+ * Check whether a value is an Error instance or an error serialized
+ * by Pino (an object with a string message or stack)
+ */
+export function isErrorLike(value: unknown): value is Record<string, unknown> {
+  if (value instanceof Error) {
+    return true;
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const candidate = value as Record<string, unknown>;
+  return typeof candidate.stack === 'string' || typeof candidate.message === 'string';
+}
+
+/**
+ * Normalize a stack trace to the format Error Reporting parses:
+ * a "Type: message" header followed by frames indented with four spaces.
+ * Cause stacks appended by Pino's serializer are removed, and a header is
+ * added to stacks that only contain frames.
+ *
+ * @param stack - The stack trace
+ * @param type - Error type used for a missing header
+ * @param message - Error message used for a missing header
+ * @returns The normalized stack trace
+ */
+export function normalizeStack(stack: string, type = 'Error', message = ''): string {
+  const [own] = stack.replace(/\r\n?/g, '\n').split(CAUSED_BY);
+  const lines = own
+    .split('\n')
+    .map((line) => (STACK_FRAME.test(line) ? `    ${line.trim()}` : line.trimEnd()))
+    .filter((line) => line !== '');
+
+  if (lines.length === 0 || STACK_FRAME.test(lines[0])) {
+    lines.unshift(message ? `${type}: ${message}` : type);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Parse the cause stacks Pino appends to the stack of the outermost error
+ */
+function parseCausedBy(stack: string): SerializedError | undefined {
+  const segments = stack.replace(/\r\n?/g, '\n').split(CAUSED_BY).slice(1);
+
+  let cause: SerializedError | undefined;
+  for (const segment of segments.reverse()) {
+    const header = segment.split('\n', 1)[0];
+    const match = /^([\w$.]+)(?::\s?(.*))?$/.exec(header);
+    const type = match?.[1] ?? 'Error';
+    const message = match?.[2] ?? '';
+    cause = { type, message, stack: normalizeStack(segment, type, message), ...(cause && { cause }) };
+  }
+  return cause;
+}
+
+/**
+ * Serialize a nested cause or aggregated error, keeping other values as they are
+ */
+function serializeNested(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+  if (!isErrorLike(value)) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  if (depth >= MAX_ERROR_DEPTH) {
+    return '[Truncated]';
+  }
+  return serialize(value, depth, seen);
+}
+
+/**
+ * Fully serialize an error: type, message, normalized stack, custom
+ * properties such as code or statusCode, the cause chain and the errors
+ * of an AggregateError. Accepts Error instances as well as errors already
+ * serialized by Pino, including the cause stacks Pino appends to the stack.
+ *
+ * @param error - The error to serialize
+ * @returns The serialized error
+ */
+export function serializeError(error: Record<string, unknown> | Error): SerializedError {
+  return serialize(error, 0, new WeakSet());
+}
+
+/**
+ * Serialize an error at the given nesting depth
+ */
+function serialize(
+  error: Record<string, unknown> | Error,
+  depth: number,
+  seen: WeakSet<object>
+): SerializedError {
+  seen.add(error);
+  const source = error as Record<string, unknown>;
+
+  const type =
+    (typeof source.type === 'string' && source.type) ||
+    (error instanceof Error && error.constructor.name !== 'Object' && error.constructor.name) ||
+    (typeof source.name === 'string' && source.name) ||
+    'Error';
+  const message = typeof source.message === 'string' ? source.message : '';
+
+  const result: SerializedError = { type, message };
+  if (typeof source.stack === 'string') {
+    result.stack = normalizeStack(source.stack, type, message);
+  }
+
+  for (const [key, value] of Object.entries(source)) {
+    if (!RESERVED_KEYS.has(key)) {
+      result[key] = value;
+    }
+  }
+
+  if (source.cause !== undefined) {
+    result.cause = serializeNested(source.cause, depth + 1, seen);
+  } else if (typeof source.stack === 'string') {
+    const cause = parseCausedBy(source.stack);
+    if (cause) {
+      result.cause = cause;
+    }
+  }
+
+  const errors = source.errors ?? source.aggregateErrors;
+  if (Array.isArray(errors)) {
+    result.errors = errors.map((item) => serializeNested(item, depth + 1, seen));
+  }
+
+  return result;
+}
@@ -12,6 +12,9 @@ export {
   LOGGING_TRACE_KEY,
   LOGGING_SPAN_KEY,
   LOGGING_SAMPLED_KEY,
+  LOGGING_SOURCE_LOCATION_KEY,
+  LOGGING_OPERATION_KEY,
+  LOGGING_INSERT_ID_KEY,
   PINO_LEVELS,
   CLOUD_LOGGING_SEVERITY,
   PINO_TO_CLOUD_SEVERITY,
@@ -23,6 +26,35 @@ export {
   type PinoLogObject,
   type CloudLogEntry,
   type CloudLoggingSeverity,
+  type BatchingOptions,
+  type RetryOptions,
+  type OverflowPolicy,
+  type SpoolOptions,
+  type WriteStats,
+  type MetadataLookup,
+  type ResourceDetectionOptions,
+  type TraceContext,
+  type TraceContextProvider,
+  type SeverityFallback,
+  type LogEntryParts,
+  type BeforeWriteHook,
+  type RedactCensor,
+  type RedactOptions,
+  type SerializedError,
+  type SourceLocation,
+  type LogOperation,
+  type LogRoute,
+  type CallerMixinOptions,
+  type LogWriter,
+  type CapturedLogEntry,
+  type DestinationStream,
+  type RateLimit,
+  type SamplingOptions,
+  type DedupOptions,
+  type RequestLogDetails,
+  type LoggingMetrics,
+  type LoggingHealth,
+  type LoggingHealthStatus,
 } from './types.js';
 
 // Export trace utilities
@@ -30,15 +62,44 @@ export {
   getCurrentTraceFromAgent,
   getCurrentSpanFromAgent,
   parseTraceHeader,
+  parseTraceparent,
+  parseTraceState,
+  formatSpanId,
+  getTraceContextFromOpenTelemetry,
+  defaultTraceContextProvider,
 } from './trace.js';
 
+// Export monitored resource detection
+export { detectResource, createMetadataLookup } from './resource.js';
+
+// Export error serialization
+export { serializeError, normalizeStack } from './errors.js';
+
+// Export source location capture
+export { createCallerMixin } from './source-location.js';
+
 // Export the LoggingCommon class for advanced usage
 export { LoggingCommon } from './common.js';
 
 // Re-export middleware (also available via 'pino-cloud-logging/middleware')
 export {
   makeMiddleware,
+  makeFastifyPlugin,
+  makeKoaMiddleware,
+  makeRequestListener,
   makeChildLogger,
+  makeOperationLogger,
+  traceMixin,
+  runWithRequestContext,
+  getRequestContext,
+  addRequestLabels,
   type MiddlewareOptions,
+  type BodyLoggingOptions,
+  type TrustProxy,
+  type RequestCacheStatus,
   type LoggingRequest,
+  type LoggingContext,
+  type LoggingIncomingMessage,
+  type RequestContext,
+  type OperationLogger,
 } from './middleware/index.js';
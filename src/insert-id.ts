@@ -0,0 +1,40 @@
+/**
+ * Generation of entry insertIds
+ */
+
+import { randomBytes } from 'node:crypto';
+
+/**
+ * Width of the base-36 counter, enough for 2.8 trillion entries
+ */
+const COUNTER_WIDTH = 8;
+
+/**
+ * Width of the base-36 process start time, enough until the year 5188
+ */
+const START_TIME_WIDTH = 9;
+
+/**
+ * Generates insertIds that increase monotonically: a prefix unique to
+ * the process followed by a zero-padded counter. Ids are assigned once
+ * per entry, so retries and replays send the same id and Cloud Logging
+ * deduplicates them. The prefix starts with the process start time, so
+ * ids of a restarted process sort after those of the previous one; a
+ * random part keeps processes started at the same time apart.
+ */
+export class InsertIdGenerator {
+  private prefix: string;
+  private counter = 0;
+
+  constructor(startTime = Date.now()) {
+    const time = startTime.toString(36).padStart(START_TIME_WIDTH, '0');
+    this.prefix = `${time}${randomBytes(3).toString('hex')}-`;
+  }
+
+  /**
+   * Get the next insertId
+   */
+  next(): string {
+    return this.prefix + (this.counter++).toString(36).padStart(COUNTER_WIDTH, '0');
+  }
+}
@@ -0,0 +1,148 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createNoopMeter, metrics, type Attributes, type ObservableGauge } from '@opentelemetry/api';
+import { LoggingCommon } from './common.js';
+import { getErrorCode, MetricsRecorder } from './metrics.js';
+import { MemorySink } from './testing/memory-sink.js';
+import type { LoggingMetrics, WriteStats } from './types.js';
+
+const NO_STATS: WriteStats = {
+  retried: 0,
+  droppedOverflow: 0,
+  droppedRetriesExhausted: 0,
+  droppedNonRetryable: 0,
+  droppedShutdown: 0,
+  droppedSpoolOverflow: 0,
+  droppedSpoolExpired: 0,
+  spooled: 0,
+  spoolQueued: 0,
+  queued: 0,
+};
+
+test('names the codes of failed writes', () => {
+  assert.equal(getErrorCode({ code: 14 }), 'UNAVAILABLE');
+  assert.equal(getErrorCode({ code: 99 }), '99');
+  assert.equal(getErrorCode(Object.assign(new Error('broken pipe'), { code: 'EPIPE' })), 'EPIPE');
+  assert.equal(getErrorCode(new Error('failed')), 'UNKNOWN');
+  assert.equal(getErrorCode(null), 'UNKNOWN');
+});
+
+test('counts writes and failures', () => {
+  const recorder = new MetricsRecorder();
+  recorder.recordWrite(3, 300, 10);
+  recorder.recordWrite(1, 100, 30);
+  recorder.recordFailure({ code: 14 }, 2);
+  recorder.recordFailure(new Error('denied'), 1);
+  recorder.recordSuppressed();
+
+  assert.deepEqual(recorder.getMetrics(NO_STATS, 5), {
+    ...NO_STATS,
+    entriesWritten: 4,
+    bytesWritten: 400,
+    entriesSuppressed: 1,
+    entriesFailed: 3,
+    failuresByCode: { UNAVAILABLE: 2, UNKNOWN: 1 },
+    writeLatencyMs: { count: 2, sum: 40, max: 30 },
+    queueDepth: 5,
+  });
+});
+
+test('derives the health from recent writes and queued entries', () => {
+  const recorder = new MetricsRecorder();
+  assert.equal(recorder.getHealth(NO_STATS, 0, false).status, 'healthy');
+  assert.equal(recorder.getHealth({ ...NO_STATS, queued: 1 }, 1, false).status, 'degraded');
+  assert.equal(recorder.getHealth(NO_STATS, 0, true).status, 'failing');
+
+  for (let i = 1; i <= 3; i++) {
+    recorder.recordFailure(Object.assign(new Error('unavailable'), { code: 14 }), 1);
+    assert.equal(recorder.getHealth(NO_STATS, 0, false).status, i < 3 ? 'degraded' : 'failing');
+  }
+  const failing = recorder.getHealth(NO_STATS, 0, false);
+  assert.equal(failing.consecutiveFailures, 3);
+  assert.deepEqual(failing.lastError, { code: 'UNAVAILABLE', message: 'unavailable' });
+  assert.ok(failing.lastFailureAt);
+
+  recorder.recordWrite(1, 0, 1);
+  const healthy = recorder.getHealth(NO_STATS, 0, false);
+  assert.equal(healthy.status, 'healthy');
+  assert.equal(healthy.consecutiveFailures, 0);
+  assert.ok(healthy.lastSuccessAt);
+});
+
+test('reports the metrics of a transport on shutdown', async () => {
+  const reports: LoggingMetrics[] = [];
+  let failures = 1;
+  const sink = new MemorySink();
+  const logging = new LoggingCommon({
+    projectId: 'test',
+    resource: { type: 'global' },
+    batching: { maxEntries: 1 },
+    writer: {
+      async write(logName, entries) {
+        if (failures-- > 0) {
+          throw Object.assign(new Error('denied'), { code: 7 });
+        }
+        await sink.write(logName, entries);
+      },
+    },
+    defaultCallback: () => {},
+    onMetrics: (report) => reports.push(report),
+    metricsIntervalMs: 0,
+  });
+
+  await logging.writeLog({ level: 30, time: Date.now(), msg: 'denied' });
+  await logging.writeLog({ level: 30, time: Date.now(), msg: 'written' });
+  await logging.flush();
+  assert.equal(logging.getHealth().status, 'healthy');
+  await logging.shutdown();
+
+  assert.equal(reports.length, 1);
+  assert.equal(reports[0].entriesWritten, 1);
+  assert.equal(reports[0].entriesFailed, 1);
+  assert.deepEqual(reports[0].failuresByCode, { PERMISSION_DENIED: 1 });
+  assert.equal(reports[0].droppedNonRetryable, 1);
+  assert.equal(logging.getHealth().status, 'failing');
+});
+
+test('reports the metrics as OpenTelemetry instruments', async () => {
+  const observed = new Map<string, Array<[number, Attributes | undefined]>>();
+  const collectors: Array<() => void> = [];
+  const durations: number[] = [];
+  const observable = (name: string): ObservableGauge => ({
+    addCallback(callback) {
+      collectors.push(() => {
+        const values: Array<[number, Attributes | undefined]> = [];
+        void callback({ observe: (value, attributes) => values.push([value, attributes]) });
+        observed.set(name, values);
+      });
+    },
+    removeCallback() {},
+  });
+  const meter = createNoopMeter();
+  meter.createObservableCounter = observable;
+  meter.createObservableGauge = observable;
+  meter.createHistogram = () => ({ record: (value) => durations.push(value) });
+  metrics.setGlobalMeterProvider({ getMeter: () => meter });
+
+  try {
+    const logging = new LoggingCommon({
+      projectId: 'test',
+      resource: { type: 'global' },
+      writer: new MemorySink(),
+      openTelemetryMetrics: true,
+    });
+    await logging.writeLog({ level: 30, time: Date.now(), msg: 'hello' });
+    await logging.flush();
+    for (const collect of collectors) {
+      collect();
+    }
+
+    assert.deepEqual(observed.get('pino_cloud_logging.entries.written'), [[1, undefined]]);
+    assert.deepEqual(observed.get('pino_cloud_logging.queue.depth'), [[0, undefined]]);
+    assert.deepEqual(observed.get('pino_cloud_logging.entries.dropped')?.[0], [0, { reason: 'overflow' }]);
+    assert.equal(durations.length, 1);
+    await logging.shutdown();
+  } finally {
+    metrics.disable();
+  }
+});
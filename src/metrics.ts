@@ -0,0 +1,279 @@
+/**
+ * Metrics and health of the transport itself
+ */
+
+import type { LoggingHealth, LoggingMetrics, WriteStats } from './types.js';
+import { loadOpenTelemetryApi } from './trace.js';
+
+/**
+ * Consecutive failed writes after which the transport is failing
+ */
+const FAILING_THRESHOLD = 3;
+
+/**
+ * Name of the OpenTelemetry meter
+ */
+const METER_NAME = 'pino-cloud-logging';
+
+/**
+ * gRPC status names by code
+ */
+const GRPC_STATUS_NAMES = [
+  'OK',
+  'CANCELLED',
+  'UNKNOWN',
+  'INVALID_ARGUMENT',
+  'DEADLINE_EXCEEDED',
+  'NOT_FOUND',
+  'ALREADY_EXISTS',
+  'PERMISSION_DENIED',
+  'RESOURCE_EXHAUSTED',
+  'FAILED_PRECONDITION',
+  'ABORTED',
+  'OUT_OF_RANGE',
+  'UNIMPLEMENTED',
+  'INTERNAL',
+  'UNAVAILABLE',
+  'DATA_LOSS',
+  'UNAUTHENTICATED',
+];
+
+/**
+ * Minimal subset of the @opentelemetry/api module used for metrics
+ */
+interface OpenTelemetryMetricsApi {
+  metrics: {
+    getMeter(name: string): OpenTelemetryMeter;
+  };
+}
+
+interface ObservableResult {
+  observe(value: number, attributes?: Record<string, string>): void;
+}
+
+interface ObservableInstrument {
+  addCallback(callback: (result: ObservableResult) => void): void;
+}
+
+interface InstrumentOptions {
+  description?: string;
+  unit?: string;
+}
+
+interface OpenTelemetryMeter {
+  createObservableCounter(name: string, options?: InstrumentOptions): ObservableInstrument;
+  createObservableGauge(name: string, options?: InstrumentOptions): ObservableInstrument;
+  createHistogram(name: string, options?: InstrumentOptions): { record(value: number): void };
+}
+
+/**
+ * Get the code of a failed write: the gRPC status name for API errors,
+ * or the error code for system errors such as EPIPE
+ *
+ * @param err - The error of the failed write
+ * @returns The code, or 'UNKNOWN'
+ */
+export function getErrorCode(err: unknown): string {
+  const code = (err as { code?: unknown } | null)?.code;
+  if (typeof code === 'number') {
+    return GRPC_STATUS_NAMES[code] ?? String(code);
+  }
+  if (typeof code === 'string' && code !== '') {
+    return code;
+  }
+  return 'UNKNOWN';
+}
+
+/**
+ * Records writes, failures and suppressed entries for the transport's
+ * metrics and health report
+ */
+export class MetricsRecorder {
+  private entriesWritten = 0;
+  private bytesWritten = 0;
+  private entriesSuppressed = 0;
+  private entriesFailed = 0;
+  private failuresByCode: Record<string, number> = {};
+  private latency = { count: 0, sum: 0, max: 0 };
+  private consecutiveFailures = 0;
+  private lastSuccessAt?: number;
+  private lastFailureAt?: number;
+  private lastError?: { code: string; message: string };
+  private histogram?: { record(value: number): void };
+
+  /**
+   * Record a successful write
+   *
+   * @param entries - Number of entries written
+   * @param bytes - Serialized size of the entries, 0 if unknown
+   * @param latencyMs - Duration of the write
+   */
+  recordWrite(entries: number, bytes: number, latencyMs: number): void {
+    this.entriesWritten += entries;
+    this.bytesWritten += bytes;
+    this.latency.count++;
+    this.latency.sum += latencyMs;
+    this.latency.max = Math.max(this.latency.max, latencyMs);
+    this.histogram?.record(latencyMs);
+    this.consecutiveFailures = 0;
+    this.lastSuccessAt = Date.now();
+  }
+
+  /**
+   * Record a failed write attempt
+   *
+   * @param err - The error of the write
+   * @param entries - Number of entries in the attempt
+   */
+  recordFailure(err: unknown, entries: number): void {
+    const code = getErrorCode(err);
+    this.entriesFailed += entries;
+    this.failuresByCode[code] = (this.failuresByCode[code] ?? 0) + entries;
+    this.consecutiveFailures++;
+    this.lastFailureAt = Date.now();
+    this.lastError = { code, message: err instanceof Error ? err.message : String(err) };
+  }
+
+  /**
+   * Record an entry that was not written on purpose
+   */
+  recordSuppressed(): void {
+    this.entriesSuppressed++;
+  }
+
+  /**
+   * Build the metrics report
+   *
+   * @param stats - Retry and drop counters of the batchers
+   * @param queueDepth - Entries buffered or waiting for a retry
+   */
+  getMetrics(stats: WriteStats, queueDepth: number): LoggingMetrics {
+    return {
+      ...stats,
+      entriesWritten: this.entriesWritten,
+      bytesWritten: this.bytesWritten,
+      entriesSuppressed: this.entriesSuppressed,
+      entriesFailed: this.entriesFailed,
+      failuresByCode: { ...this.failuresByCode },
+      writeLatencyMs: { ...this.latency },
+      queueDepth,
+    };
+  }
+
+  /**
+   * Build the health report
+   *
+   * @param stats - Retry and drop counters of the batchers
+   * @param queueDepth - Entries buffered or waiting for a retry
+   * @param closed - Whether the transport was shut down
+   */
+  getHealth(stats: WriteStats, queueDepth: number, closed: boolean): LoggingHealth {
+    let status: LoggingHealth['status'] = 'healthy';
+    if (closed || this.consecutiveFailures >= FAILING_THRESHOLD) {
+      status = 'failing';
+    } else if (this.consecutiveFailures > 0 || stats.queued > 0 || stats.spoolQueued > 0) {
+      status = 'degraded';
+    }
+
+    return {
+      status,
+      consecutiveFailures: this.consecutiveFailures,
+      lastSuccessAt: this.lastSuccessAt ? new Date(this.lastSuccessAt).toISOString() : undefined,
+      lastFailureAt: this.lastFailureAt ? new Date(this.lastFailureAt).toISOString() : undefined,
+      lastError: this.lastError,
+      queueDepth,
+    };
+  }
+
+  /**
+   * Report the metrics as OpenTelemetry instruments
+   *
+   * @param read - Function returning the current metrics
+   * @returns False if @opentelemetry/api is not installed
+   */
+  enableOpenTelemetry(read: () => LoggingMetrics): boolean {
+    const api = loadOpenTelemetryApi<OpenTelemetryMetricsApi>();
+    if (!api) {
+      return false;
+    }
+
+    const meter = api.metrics.getMeter(METER_NAME);
+    const observe = (
+      instrument: ObservableInstrument,
+      report: (metrics: LoggingMetrics, result: ObservableResult) => void
+    ) => instrument.addCallback((result) => report(read(), result));
+
+    observe(
+      meter.createObservableCounter('pino_cloud_logging.entries.written', {
+        description: 'Entries written',
+      }),
+      (metrics, result) => result.observe(metrics.entriesWritten)
+    );
+    observe(
+      meter.createObservableCounter('pino_cloud_logging.bytes.written', {
+        description: 'Serialized bytes of the written entries',
+        unit: 'By',
+      }),
+      (metrics, result) => result.observe(metrics.bytesWritten)
+    );
+    observe(
+      meter.createObservableCounter('pino_cloud_logging.entries.suppressed', {
+        description: 'Entries suppressed by sampling, rate limits, deduplication or hooks',
+      }),
+      (metrics, result) => result.observe(metrics.entriesSuppressed)
+    );
+    observe(
+      meter.createObservableCounter('pino_cloud_logging.entries.failed', {
+        description: 'Entries in failed write attempts',
+      }),
+      (metrics, result) => {
+        for (const [code, count] of Object.entries(metrics.failuresByCode)) {
+          result.observe(count, { 'error.code': code });
+        }
+      }
+    );
+    observe(
+      meter.createObservableCounter('pino_cloud_logging.entries.retried', {
+        description: 'Entries retried after a failed write',
+      }),
+      (metrics, result) => result.observe(metrics.retried)
+    );
+    observe(
+      meter.createObservableCounter('pino_cloud_logging.entries.dropped', {
+        description: 'Entries dropped without being written',
+      }),
+      (metrics, result) => {
+        result.observe(metrics.droppedOverflow, { reason: 'overflow' });
+        result.observe(metrics.droppedRetriesExhausted, { reason: 'retries_exhausted' });
+        result.observe(metrics.droppedNonRetryable, { reason: 'non_retryable' });
+        result.observe(metrics.droppedShutdown, { reason: 'shutdown' });
+        result.observe(metrics.droppedSpoolOverflow, { reason: 'spool_overflow' });
+        result.observe(metrics.droppedSpoolExpired, { reason: 'spool_expired' });
+      }
+    );
+    observe(
+      meter.createObservableCounter('pino_cloud_logging.entries.spooled', {
+        description: 'Entries written to the disk spool',
+      }),
+      (metrics, result) => result.observe(metrics.spooled)
+    );
+    observe(
+      meter.createObservableGauge('pino_cloud_logging.spool.depth', {
+        description: 'Entries in the disk spool waiting to be replayed',
+      }),
+      (metrics, result) => result.observe(metrics.spoolQueued)
+    );
+    observe(
+      meter.createObservableGauge('pino_cloud_logging.queue.depth', {
+        description: 'Entries buffered or waiting for a retry',
+      }),
+      (metrics, result) => result.observe(metrics.queueDepth)
+    );
+    this.histogram = meter.createHistogram('pino_cloud_logging.write.duration', {
+      description: 'Duration of successful writes',
+      unit: 'ms',
+    });
+
+    return true;
+  }
+}
@@ -0,0 +1,147 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type RequestListener, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import Fastify from 'fastify';
+import Koa from 'koa';
+import pino from 'pino';
+import { LoggingEmulator } from '../testing/emulator.js';
+import { LOGGING_SPAN_KEY, LOGGING_TRACE_KEY, LOGGING_SAMPLED_KEY } from '../types.js';
+import { getRequestContext } from './context.js';
+import type { MiddlewareOptions, RequestLogHandle } from './core.js';
+import { makeMiddleware, type LoggingRequest } from './express.js';
+import { makeFastifyPlugin } from './fastify.js';
+import { makeRequestListener } from './http.js';
+import { makeKoaMiddleware, type LoggingContext } from './koa.js';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+/**
+ * Sets up an application with the adapter, returning its request
+ * listener and the handle of its parent request entries
+ */
+type AdapterSetup = (
+  logger: pino.Logger,
+  options: MiddlewareOptions,
+  handle: (log: pino.Logger | undefined) => void
+) => Promise<{ listener: RequestListener; logs: RequestLogHandle; close?: () => Promise<void> }>;
+
+const adapters: Record<string, AdapterSetup> = {
+  async express(logger, options, handle) {
+    const app = express();
+    const middleware = makeMiddleware(logger, options);
+    app.use(middleware);
+    app.get('/items/:id', (req, res) => {
+      handle((req as LoggingRequest).log);
+      res.status(201).json({ ok: true });
+    });
+    return { listener: app, logs: middleware };
+  },
+
+  async fastify(logger, options, handle) {
+    const app = Fastify();
+    const plugin = makeFastifyPlugin(logger, options);
+    await app.register(plugin);
+    app.get('/items/:id', async (request, reply) => {
+      handle(request.log as pino.Logger);
+      reply.code(201);
+      return { ok: true };
+    });
+    await app.ready();
+    return {
+      listener: (req, res) => app.routing(req, res),
+      logs: plugin,
+      close: () => app.close(),
+    };
+  },
+
+  async koa(logger, options, handle) {
+    const app = new Koa();
+    const middleware = makeKoaMiddleware(logger, options);
+    app.use(middleware);
+    app.use(async (ctx) => {
+      // Stands in for @koa/router, which records the matched route
+      Object.assign(ctx, { _matchedRoute: '/items/:id' });
+      handle((ctx as LoggingContext).log);
+      ctx.status = 201;
+      ctx.body = { ok: true };
+    });
+    return { listener: app.callback(), logs: middleware };
+  },
+
+  async http(logger, options, handle) {
+    const listener = makeRequestListener(
+      logger,
+      (req, res) => {
+        handle(req.log);
+        res.statusCode = 201;
+        res.setHeader('content-type', 'application/json');
+        res.end('{"ok":true}');
+      },
+      options
+    );
+    return { listener, logs: listener };
+  },
+};
+
+for (const [name, setup] of Object.entries(adapters)) {
+  test(`correlates ${name} requests and writes their parent request entries`, async () => {
+    const emulator = new LoggingEmulator();
+    const lines: Array<Record<string, unknown>> = [];
+    const logger = pino({}, { write: (line: string) => lines.push(JSON.parse(line)) });
+    let context: ReturnType<typeof getRequestContext>;
+
+    const { listener, logs, close } = await setup(
+      logger,
+      {
+        projectId: 'test',
+        emulatorHost: await emulator.start(),
+        skipParentRequestEntry: false,
+        useAsyncContext: true,
+      },
+      (log) => {
+        context = getRequestContext();
+        log?.info('handling');
+      }
+    );
+    const server: Server = createServer(listener);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const response = await fetch(`http://127.0.0.1:${port}/items/1`, {
+        headers: { traceparent: `00-${TRACE_ID}-${SPAN_ID}-01` },
+      });
+      assert.deepEqual(await response.json(), { ok: true });
+
+      const line = lines.find((entry) => entry.msg === 'handling');
+      assert.equal(line?.[LOGGING_TRACE_KEY], `projects/test/traces/${TRACE_ID}`);
+      assert.equal(line?.[LOGGING_SPAN_KEY], SPAN_ID);
+      assert.equal(line?.[LOGGING_SAMPLED_KEY], true);
+      assert.equal(context?.trace, `projects/test/traces/${TRACE_ID}`);
+
+      assert.equal(await logs.shutdown(), true);
+      assert.equal(emulator.entries.length, 1);
+      const [entry] = emulator.entries;
+      assert.equal(entry.trace, `projects/test/traces/${TRACE_ID}`);
+      assert.equal(entry.httpRequest?.status, 201);
+      assert.equal(entry.httpRequest?.remoteIp, '127.0.0.1');
+      assert.match(String(entry.httpRequest?.requestUrl), /\/items\/1$/);
+      assert.deepEqual(entry.jsonPayload?.childLogs, {
+        count: 1,
+        byLevel: { info: 1 },
+        maxSeverity: 'INFO',
+      });
+      if (name !== 'http') {
+        assert.deepEqual(entry.labels, { route: '/items/:id' });
+      }
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+      await close?.();
+      await emulator.stop();
+    }
+  });
+}
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createBodyCapture, type BodyLoggingOptions } from './body.js';
+
+/**
+ * Serve one POST request, reading its body with the given consumer, and
+ * return the captured fields
+ */
+async function capture(
+  options: BodyLoggingOptions,
+  consume: (req: IncomingMessage) => Promise<void>,
+  respond: (res: ServerResponse) => void
+): Promise<Record<string, unknown>> {
+  const captureBodies = createBodyCapture(options);
+  let fields: Promise<Record<string, unknown>> | undefined;
+  const server = createServer((req, res) => {
+    const readBodies = captureBodies(req, res);
+    fields = consume(req).then(() => {
+      respond(res);
+      return readBodies();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  try {
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}/`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ name: 'widget', tags: ['a', 'b'] }),
+    });
+    await response.text();
+    return await fields!;
+  } finally {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+}
+
+const respondJson = (res: ServerResponse) => {
+  res.setHeader('content-type', 'application/json');
+  res.end('{"ok":true}');
+};
+
+test('captures request bodies read through async iteration', async () => {
+  const fields = await capture(
+    {},
+    async (req) => {
+      for await (const chunk of req) {
+        assert.ok(Buffer.isBuffer(chunk));
+      }
+    },
+    respondJson
+  );
+  assert.deepEqual(fields, { requestBody: { name: 'widget', tags: ['a', 'b'] }, responseBody: { ok: true } });
+});
+
+test('captures request bodies read through read()', async () => {
+  const fields = await capture(
+    { response: false },
+    (req) =>
+      new Promise((resolve) => {
+        req.setEncoding('utf8');
+        req.on('readable', () => {
+          while (req.read() !== null) {
+            // Discard the body
+          }
+        });
+        req.on('end', resolve);
+      }),
+    respondJson
+  );
+  assert.deepEqual(fields, { requestBody: { name: 'widget', tags: ['a', 'b'] } });
+});
+
+test('counts the bytes of string chunks past the limit', async () => {
+  const fields = await capture(
+    { request: false, maxBytes: 4 },
+    async (req) => {
+      req.resume();
+    },
+    (res) => {
+      res.setHeader('content-type', 'text/plain; charset=utf-8');
+      res.write('héllo');
+      res.write('6869', 'hex');
+      res.end(Buffer.from('!'));
+    }
+  );
+  assert.deepEqual(fields, { responseBody: 'hél', responseBodyTruncated: true });
+});
@@ -0,0 +1,245 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+const DEFAULT_MAX_BYTES = 8192;
+const DEFAULT_CONTENT_TYPES = [
+  'application/json',
+  'application/*+json',
+  'application/x-www-form-urlencoded',
+  'text/*',
+];
+
+/**
+ * Content types that are streamed indefinitely and never captured
+ */
+const STREAMING_CONTENT_TYPES = new Set(['text/event-stream']);
+
+/**
+ * Options for request and response body capture
+ */
+export interface BodyLoggingOptions {
+  /**
+   * Capture request bodies. Default: true
+   */
+  request?: boolean;
+
+  /**
+   * Capture response bodies. Default: true
+   */
+  response?: boolean;
+
+  /**
+   * URL paths whose bodies are captured. Strings match the whole path,
+   * with '*' matching any characters, e.g. '/api/*'. Default: all paths
+   */
+  routes?: Array<string | RegExp>;
+
+  /**
+   * Content types that are captured, with '*' matching any characters.
+   * Default: ['application/json', 'application/*+json',
+   * 'application/x-www-form-urlencoded', 'text/*']
+   */
+  contentTypes?: string[];
+
+  /**
+   * Maximum captured bytes of each body; longer bodies are truncated.
+   * Default: 8192
+   */
+  maxBytes?: number;
+
+  /**
+   * Where the bodies are written:
+   * - 'request': in the parent request entry (default)
+   * - 'debug': in a separate DEBUG entry written through the request's
+   *   logger, also used when parent request entries are skipped. The
+   *   entry is dropped unless the logger's level is 'debug' or lower
+   */
+  attachTo?: 'request' | 'debug';
+}
+
+/**
+ * Convert a pattern with '*' wildcards to a regular expression
+ * matching the whole string
+ */
+function wildcardToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\/]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Collects the chunks of a body up to a size limit
+ */
+class BodyBuffer {
+  private chunks: Buffer[] = [];
+  private captured = 0;
+  size = 0;
+
+  constructor(private maxBytes: number) {}
+
+  add(chunk: unknown, encoding?: unknown): void {
+    if (chunk === undefined || chunk === null || typeof chunk === 'function') {
+      return;
+    }
+    const remaining = this.maxBytes - this.captured;
+    if (chunk instanceof Uint8Array) {
+      this.size += chunk.byteLength;
+      if (remaining > 0) {
+        this.keep(
+          Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength),
+          remaining
+        );
+      }
+      return;
+    }
+
+    // Only the part of a string that fits is converted
+    const text = String(chunk);
+    const textEncoding =
+      typeof encoding === 'string' && Buffer.isEncoding(encoding) ? encoding : ('utf8' as const);
+    this.size += Buffer.byteLength(text, textEncoding);
+    if (remaining > 0) {
+      // Each character takes at least one byte in UTF-8
+      const part = /^utf-?8$/i.test(textEncoding) ? text.slice(0, remaining) : text;
+      this.keep(Buffer.from(part, textEncoding), remaining);
+    }
+  }
+
+  private keep(buffer: Buffer, remaining: number): void {
+    const part = buffer.subarray(0, remaining);
+    this.chunks.push(part);
+    this.captured += part.length;
+  }
+
+  /**
+   * The captured body: parsed JSON for complete JSON bodies, otherwise text
+   */
+  read(contentType: string): unknown {
+    const text = Buffer.concat(this.chunks).toString('utf8');
+    if (!this.truncated && /[/+]json$/.test(contentType)) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        // Keep invalid JSON as text
+      }
+    }
+    return text;
+  }
+
+  get truncated(): boolean {
+    return this.size > this.captured;
+  }
+}
+
+/**
+ * Get the media type of a content-type header, e.g. 'application/json'
+ */
+function mediaType(value: number | string | string[] | undefined): string | undefined {
+  const header = Array.isArray(value) ? value[0] : value;
+  return header === undefined ? undefined : String(header).split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Decides which bodies of a request are captured and records them
+ */
+export type BodyCapture = (req: IncomingMessage, res: ServerResponse) => () => Record<string, unknown>;
+
+/**
+ * Create the body capture of the middleware. Request bodies are observed
+ * as they are pushed into the request stream, whether the application
+ * reads them through events, read() or async iteration, and response
+ * bodies as they are written, without consuming or changing the streams.
+ * Only the first maxBytes of each body are kept.
+ *
+ * @param options - Body logging options
+ * @returns Function starting the capture of a request, returning a
+ *   function that yields the payload fields once the response has ended
+ */
+export function createBodyCapture(options: BodyLoggingOptions): BodyCapture {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const routes = options.routes?.map((route) =>
+    typeof route === 'string' ? wildcardToRegExp(route) : route
+  );
+  const contentTypes = (options.contentTypes ?? DEFAULT_CONTENT_TYPES).map(wildcardToRegExp);
+
+  const isCaptured = (contentType: string | undefined): contentType is string =>
+    contentType !== undefined &&
+    !STREAMING_CONTENT_TYPES.has(contentType) &&
+    contentTypes.some((pattern) => pattern.test(contentType));
+
+  return function captureBodies(req, res) {
+    const path = (req.url ?? '/').split('?')[0];
+    if (routes && !routes.some((route) => route.test(path))) {
+      return () => ({});
+    }
+
+    // Observe the chunks the parser pushes into the request stream; every
+    // way of reading the request consumes them
+    const requestType = mediaType(req.headers['content-type']);
+    let requestBody: BodyBuffer | undefined;
+    if (options.request !== false && isCaptured(requestType)) {
+      const body = new BodyBuffer(maxBytes);
+      const push = req.push;
+      req.push = function (this: IncomingMessage, chunk: unknown, encoding?: BufferEncoding) {
+        body.add(chunk, encoding);
+        return push.call(this, chunk, encoding);
+      };
+      requestBody = body;
+    }
+
+    // Record what the application writes, unless the headers already
+    // rule the response out; the content type is checked again at the end
+    let responseBody: BodyBuffer | undefined;
+    if (options.response !== false) {
+      const body = new BodyBuffer(maxBytes);
+      const record = (chunk: unknown, encoding: unknown) => {
+        const type = mediaType(res.getHeader('content-type'));
+        if (
+          (type === undefined || isCaptured(type)) &&
+          res.getHeader('content-encoding') === undefined
+        ) {
+          body.add(chunk, encoding);
+        }
+      };
+      const write = res.write;
+      const end = res.end;
+      res.write = function (this: ServerResponse, chunk: unknown, ...args: unknown[]) {
+        record(chunk, args[0]);
+        return (write as Function).call(this, chunk, ...args);
+      } as typeof res.write;
+      res.end = function (this: ServerResponse, chunk?: unknown, ...args: unknown[]) {
+        record(chunk, args[0]);
+        return (end as Function).call(this, chunk, ...args);
+      } as typeof res.end;
+      responseBody = body;
+    }
+
+    return () => {
+      const fields: Record<string, unknown> = {};
+
+      if (requestBody && requestBody.size > 0) {
+        fields.requestBody = requestBody.read(requestType as string);
+        if (requestBody.truncated) {
+          fields.requestBodyTruncated = true;
+        }
+      }
+
+      // Compressed responses are binary whatever their content type
+      const responseType = mediaType(res.getHeader('content-type'));
+      if (
+        responseBody &&
+        responseBody.size > 0 &&
+        isCaptured(responseType) &&
+        res.getHeader('content-encoding') === undefined
+      ) {
+        fields.responseBody = responseBody.read(responseType);
+        if (responseBody.truncated) {
+          fields.responseBodyTruncated = true;
+        }
+      }
+
+      return fields;
+    };
+  };
+}
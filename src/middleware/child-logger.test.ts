@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import pino from 'pino';
+import { LOGGING_OPERATION_KEY, LOGGING_SPAN_KEY, LOGGING_TRACE_KEY } from '../types.js';
+import { makeChildLogger, makeOperationLogger, observeEntries } from './child-logger.js';
+
+/**
+ * A logger writing its entries to an array
+ */
+function memoryLogger(options: pino.LoggerOptions = {}) {
+  const lines: Array<Record<string, unknown>> = [];
+  const logger = pino(options, { write: (line: string) => lines.push(JSON.parse(line)) });
+  return { logger, lines };
+}
+
+test('binds the trace context to child loggers', () => {
+  const { logger, lines } = memoryLogger();
+  makeChildLogger(logger, 'projects/p/traces/t', '12').info('hello');
+  assert.equal(lines[0][LOGGING_TRACE_KEY], 'projects/p/traces/t');
+  assert.equal(lines[0][LOGGING_SPAN_KEY], '12');
+});
+
+test('marks the first and last entries of an operation', () => {
+  const { logger, lines } = memoryLogger({ level: 'info' });
+  const log = makeOperationLogger(logger, 'op-1', 'worker');
+
+  log.debug('below the level');
+  log.info('started');
+  log.warn('working');
+  log.end({ items: 3 }, 'done');
+
+  assert.deepEqual(
+    lines.map((line) => [line.msg, line[LOGGING_OPERATION_KEY]]),
+    [
+      ['started', { id: 'op-1', producer: 'worker', first: true }],
+      ['working', { id: 'op-1', producer: 'worker' }],
+      ['done', { id: 'op-1', producer: 'worker', last: true }],
+    ]
+  );
+  assert.equal(lines[2].items, 3);
+});
+
+test('marks a single entry operation as both first and last', () => {
+  const { logger, lines } = memoryLogger();
+  makeOperationLogger(logger, 'op-2').end('only');
+  assert.deepEqual(lines[0][LOGGING_OPERATION_KEY], { id: 'op-2', first: true, last: true });
+});
+
+test('observes the entries of enabled levels, keeping existing hooks', () => {
+  const { logger, lines } = memoryLogger({
+    level: 'info',
+    hooks: {
+      logMethod(args, method) {
+        method.apply(this, [{ hooked: true }, ...args] as unknown as Parameters<pino.LogFn>);
+      },
+    },
+  });
+  const child = logger.child({});
+  const levels: number[] = [];
+  observeEntries(child, (level) => levels.push(level));
+
+  child.debug('below the level');
+  child.info('info');
+  child.child({ nested: true }).error('nested');
+  logger.info('parent');
+
+  assert.deepEqual(levels, [30, 50]);
+  assert.deepEqual(
+    lines.map((line) => [line.msg, line.hooked]),
+    [
+      ['info', true],
+      ['nested', true],
+      ['parent', true],
+    ]
+  );
+
+  child.level = 'debug';
+  child.debug('now enabled');
+  assert.deepEqual(levels, [30, 50, 20]);
+});
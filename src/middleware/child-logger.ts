@@ -1,10 +1,59 @@
-import type { Logger } from 'pino';
+import { symbols, type Logger, type LoggerOptions } from 'pino';
 import {
   LOGGING_TRACE_KEY,
   LOGGING_SPAN_KEY,
   LOGGING_SAMPLED_KEY,
+  LOGGING_OPERATION_KEY,
+  type LogOperation,
 } from '../types.js';
 
+/**
+ * Logger for the entries of a single operation
+ */
+export type OperationLogger = Logger & {
+  /**
+   * Write the last entry of the operation at the info level
+   */
+  end(obj?: object | string, msg?: string): void;
+};
+
+/**
+ * Pino's hook for calls of the level methods
+ */
+type LogMethodHook = NonNullable<NonNullable<LoggerOptions['hooks']>['logMethod']>;
+
+/**
+ * A logger with the hooks Pino keeps on every instance
+ */
+type HookedLogger = Logger & { [symbols.hooksSym]: NonNullable<LoggerOptions['hooks']> };
+
+/**
+ * Call a function after every entry a logger writes, through Pino's
+ * logMethod hook. Pino only calls it for enabled levels, and loggers
+ * derived from the logger with child() inherit it. A logMethod hook the
+ * logger already has keeps running.
+ *
+ * @param logger - The logger to observe; its hooks are replaced, so it
+ *   should be a child logger owned by the caller
+ * @param onEntry - Called with the level value of each entry
+ */
+export function observeEntries(logger: Logger, onEntry: (level: number) => void): void {
+  const hooked = logger as HookedLogger;
+  const previous = hooked[symbols.hooksSym].logMethod;
+  const logMethod: LogMethodHook = function (args, method, level) {
+    if (previous) {
+      previous.call(this, args, method, level);
+    } else {
+      method.apply(this, args);
+    }
+    onEntry(level);
+  };
+
+  hooked[symbols.hooksSym] = { ...hooked[symbols.hooksSym], logMethod };
+  // Pino binds the hook into the level methods when the level is set
+  hooked.level = hooked.level;
+}
+
 /**
  * Create a child logger with trace context bindings.
  * All logs from the child logger will automatically include
@@ -48,3 +97,63 @@ export function makeChildLogger(
 
   return logger.child(bindings);
 }
+
+/**
+ * Create a child logger grouping its entries into a Cloud Logging operation.
+ * The first entry written is marked as the first entry of the operation,
+ * and end() writes the last one, so that Logs Explorer can show the
+ * lifecycle of long-running jobs.
+ *
+ * @param logger - The parent Pino logger
+ * @param id - Operation ID, unique for the producer
+ * @param producer - Operation producer, e.g. 'github.com/my-org/batch-worker'
+ * @returns A child logger with the operation
+ *
+ * @example
+ * ```typescript
+ * import { makeOperationLogger } from 'pino-cloud-logging/middleware';
+ *
+ * subscription.on('message', async (message) => {
+ *   const log = makeOperationLogger(logger, message.id, 'invoice-worker');
+ *
+ *   log.info('Processing invoice'); // first: true
+ *   await processInvoice(message);
+ *   log.end('Invoice processed'); // last: true
+ * });
+ * ```
+ */
+export function makeOperationLogger(
+  logger: Logger,
+  id: string,
+  producer?: string
+): OperationLogger {
+  const operation: LogOperation = producer === undefined ? { id } : { id, producer };
+  const child = logger.child({
+    [LOGGING_OPERATION_KEY]: { ...operation, first: true },
+  }) as OperationLogger;
+
+  let started = false;
+
+  // Drop the first marker once an entry has been written; later
+  // bindings take precedence over earlier ones with the same key
+  observeEntries(child, () => {
+    if (!started) {
+      started = true;
+      child.setBindings({ [LOGGING_OPERATION_KEY]: operation });
+    }
+  });
+
+  child.end = (obj?: object | string, msg?: string): void => {
+    const last: LogOperation = { ...operation, last: true, ...(!started && { first: true }) };
+    started = true;
+
+    if (typeof obj === 'object' && obj !== null) {
+      const fields = obj instanceof Error ? { err: obj } : obj;
+      child.info({ ...fields, [LOGGING_OPERATION_KEY]: last }, msg);
+    } else {
+      child.info({ [LOGGING_OPERATION_KEY]: last }, obj ?? msg);
+    }
+  };
+
+  return child;
+}
@@ -0,0 +1,107 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import {
+  LOGGING_TRACE_KEY,
+  LOGGING_SPAN_KEY,
+  LOGGING_SAMPLED_KEY,
+} from '../types.js';
+
+/**
+ * Trace context and labels scoped to the current request
+ */
+export interface RequestContext {
+  trace?: string;
+  spanId?: string;
+  traceSampled?: boolean;
+  labels?: Record<string, string>;
+}
+
+/**
+ * Storage holding the context of the request being handled
+ */
+const requestContextStorage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function with the given request context. Any logger call made
+ * within the function, including in callbacks and awaited promises, picks
+ * up the context through traceMixin.
+ *
+ * @param context - The request context
+ * @param fn - The function to run
+ * @returns The function's return value
+ *
+ * @example
+ * ```typescript
+ * import { runWithRequestContext } from 'pino-cloud-logging/middleware';
+ *
+ * subscription.on('message', (message) => {
+ *   runWithRequestContext({ trace: traceFromAttributes(message) }, () => handle(message));
+ * });
+ * ```
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return requestContextStorage.run(context, fn);
+}
+
+/**
+ * Get the context of the request being handled
+ *
+ * @returns The request context, or undefined outside of a request
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return requestContextStorage.getStore();
+}
+
+/**
+ * Add labels to the current request context. They are included in all
+ * subsequent log entries of the request. Does nothing outside of a request.
+ *
+ * @param labels - Labels to add
+ */
+export function addRequestLabels(labels: Record<string, string>): void {
+  const context = requestContextStorage.getStore();
+  if (context) {
+    context.labels = { ...context.labels, ...labels };
+  }
+}
+
+/**
+ * Pino mixin adding the trace context and labels of the current request
+ * to every log entry. Use it on the root logger so that code without
+ * access to req.log still produces correlated logs.
+ *
+ * @returns The trace fields and labels to merge into the log entry
+ *
+ * @example
+ * ```typescript
+ * import pino from 'pino';
+ * import { traceMixin } from 'pino-cloud-logging/middleware';
+ *
+ * const logger = pino({
+ *   mixin: traceMixin,
+ *   transport: { target: 'pino-cloud-logging', options: { projectId: 'my-project' } }
+ * });
+ * ```
+ */
+export function traceMixin(): Record<string, unknown> {
+  const context = requestContextStorage.getStore();
+  if (!context) {
+    return {};
+  }
+
+  const fields: Record<string, unknown> = {};
+
+  if (context.trace) {
+    fields[LOGGING_TRACE_KEY] = context.trace;
+  }
+  if (context.spanId !== undefined) {
+    fields[LOGGING_SPAN_KEY] = context.spanId;
+  }
+  if (context.traceSampled !== undefined) {
+    fields[LOGGING_SAMPLED_KEY] = context.traceSampled;
+  }
+  if (context.labels && Object.keys(context.labels).length > 0) {
+    fields.labels = context.labels;
+  }
+
+  return fields;
+}
@@ -0,0 +1,151 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'node:fs';
+import { createServer, type Server } from 'node:http';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { AddressInfo } from 'node:net';
+import pino from 'pino';
+import { LoggingEmulator } from '../testing/emulator.js';
+import type { CapturedLogEntry } from '../types.js';
+import { makeRequestCorrelator, type MiddlewareOptions } from './core.js';
+
+const TRACE_ID = '105445aa7843bc8bf206b12000100000';
+
+/**
+ * Serve one request through the correlator and flush the parent
+ * request entry to the emulator
+ */
+async function requestEntry(
+  emulator: LoggingEmulator,
+  options: MiddlewareOptions,
+  status: number,
+  init: RequestInit = {},
+  level = 'debug'
+): Promise<CapturedLogEntry> {
+  const logger = pino({ level }, { write: () => {} });
+  const correlateRequest = makeRequestCorrelator(logger, {
+    projectId: 'test',
+    resource: { type: 'global' },
+    emulatorHost: emulator.host,
+    skipParentRequestEntry: false,
+    ...options,
+  });
+
+  const server: Server = createServer((req, res) => {
+    const { log } = correlateRequest(req, res, { route: () => '/items/:id' });
+    req.resume();
+    req.once('end', () => {
+      log.info('handling');
+      log.debug('details');
+      log.child({ step: 'lookup' }).warn('slow');
+      res.statusCode = status;
+      res.setHeader('content-type', 'application/json');
+      res.setHeader('x-request-id', 'r1');
+      res.end(JSON.stringify({ ok: status < 400 }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}/items/1?q=x`, {
+      ...init,
+      headers: { 'x-cloud-trace-context': `${TRACE_ID}/1;o=1`, ...init.headers },
+    });
+    await response.text();
+
+    assert.equal(await correlateRequest.shutdown(), true);
+    assert.equal(emulator.entries.length, 1);
+    return emulator.entries[0];
+  } finally {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+}
+
+test('writes a parent request entry to the request log', async () => {
+  const emulator = new LoggingEmulator();
+  await emulator.start();
+  try {
+    const entry = await requestEntry(emulator, { logName: 'app', responseHeaders: ['x-request-id'] }, 200);
+
+    assert.match(entry.logName, /app_reqlog$/);
+    assert.equal(entry.severity, 'INFO');
+    assert.equal(entry.trace, `projects/test/traces/${TRACE_ID}`);
+    assert.equal(entry.traceSampled, true);
+    assert.deepEqual(entry.labels, { route: '/items/:id' });
+    assert.equal(entry.httpRequest?.requestMethod, 'GET');
+    assert.equal(entry.httpRequest?.status, 200);
+    assert.match(String(entry.httpRequest?.requestUrl), /^http:\/\/127\.0\.0\.1:\d+\/items\/1\?q=x$/);
+    assert.deepEqual(entry.jsonPayload?.responseHeaders, { 'x-request-id': 'r1' });
+    assert.deepEqual(entry.jsonPayload?.childLogs, {
+      count: 3,
+      byLevel: { info: 1, debug: 1, warn: 1 },
+      maxSeverity: 'WARNING',
+    });
+  } finally {
+    await emulator.stop();
+  }
+});
+
+test('counts only the entries of enabled levels', async () => {
+  const emulator = new LoggingEmulator();
+  await emulator.start();
+  try {
+    const entry = await requestEntry(emulator, {}, 200, {}, 'info');
+
+    assert.deepEqual(entry.jsonPayload?.childLogs, {
+      count: 2,
+      byLevel: { info: 1, warn: 1 },
+      maxSeverity: 'WARNING',
+    });
+  } finally {
+    await emulator.stop();
+  }
+});
+
+test('follows the status in the severity of the parent request entry', async () => {
+  const emulator = new LoggingEmulator();
+  await emulator.start();
+  try {
+    const entry = await requestEntry(emulator, { stripQueryString: true }, 503);
+
+    assert.equal(entry.severity, 'ERROR');
+    assert.equal(entry.httpRequest?.status, 503);
+    assert.match(String(entry.httpRequest?.requestUrl), /\/items\/1$/);
+  } finally {
+    await emulator.stop();
+  }
+});
+
+test('attaches captured bodies to the parent request entry', async () => {
+  const emulator = new LoggingEmulator();
+  await emulator.start();
+  try {
+    const entry = await requestEntry(emulator, { bodies: { maxBytes: 11 } }, 201, {
+      method: 'POST',
+      headers: { 'content-type': 'text/plain' },
+      body: 'a long request body',
+    });
+
+    assert.equal(entry.httpRequest?.requestMethod, 'POST');
+    assert.equal(entry.jsonPayload?.requestBody, 'a long requ');
+    assert.equal(entry.jsonPayload?.requestBodyTruncated, true);
+    assert.deepEqual(entry.jsonPayload?.responseBody, { ok: true });
+  } finally {
+    await emulator.stop();
+  }
+});
+
+test('leaves the spool to the transport', async () => {
+  const emulator = new LoggingEmulator();
+  await emulator.start();
+  const directory = join(tmpdir(), `pino-cloud-logging-reqlog-${process.pid}`);
+  try {
+    await requestEntry(emulator, { spool: { directory } }, 200);
+    assert.equal(existsSync(directory), false);
+  } finally {
+    await emulator.stop();
+  }
+});
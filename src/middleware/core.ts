@@ -0,0 +1,548 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { TLSSocket } from 'node:tls';
+import type { Logger } from 'pino';
+import { randomUUID } from 'node:crypto';
+import { LoggingCommon } from '../common.js';
+import { parseTraceHeader, parseTraceparent } from '../trace.js';
+import { createSeverityMapper } from '../severity.js';
+import { makeChildLogger, observeEntries } from './child-logger.js';
+import { createBodyCapture, type BodyLoggingOptions } from './body.js';
+import {
+  compileTrustProxy,
+  normalizeAddress,
+  resolveForwarded,
+  type ForwardedHeader,
+  type TrustProxy,
+} from './proxy.js';
+import { runWithRequestContext, type RequestContext } from './context.js';
+import type { TransportOptions, HttpRequest, CloudLoggingSeverity } from '../types.js';
+
+/**
+ * Cache fields of the httpRequest of a parent request entry
+ */
+export type RequestCacheStatus = Pick<
+  HttpRequest,
+  'cacheLookup' | 'cacheHit' | 'cacheValidatedWithOriginServer' | 'cacheFillBytes'
+>;
+
+/**
+ * Options for building the httpRequest of a parent request entry
+ */
+export interface HttpRequestOptions {
+  /**
+   * Proxies trusted to report the client's IP address, protocol and host
+   * in Forwarded or X-Forwarded-* headers, like Express' trust proxy
+   * setting. When not set, the IP address and protocol resolved by the
+   * framework are used (Express' req.ip, Koa's ctx.ip, Fastify's
+   * request.ip), or the socket's for node:http.
+   */
+  trustProxy?: TrustProxy;
+
+  /**
+   * Header the trusted proxies report the client in. Set to 'forwarded'
+   * only if every trusted proxy sets the Forwarded header, since clients
+   * can send it themselves. Default: 'x-forwarded'
+   */
+  forwardedHeader?: ForwardedHeader;
+
+  /**
+   * Remove the query string from requestUrl. Default: false
+   */
+  stripQueryString?: boolean;
+
+  /**
+   * Report whether the response was served from a cache, called when the
+   * response ends
+   */
+  cacheStatus?: (req: IncomingMessage, res: ServerResponse) => RequestCacheStatus | undefined;
+}
+
+/**
+ * Middleware options
+ */
+export interface MiddlewareOptions extends TransportOptions, HttpRequestOptions {
+  /**
+   * Skip creating the parent request log entry.
+   * Set to true for managed environments (Cloud Run, Cloud Functions)
+   * that automatically create request logs.
+   */
+  skipParentRequestEntry?: boolean;
+
+  /**
+   * Store the request's trace context and labels in AsyncLocalStorage
+   * while the request is handled, so that loggers using traceMixin
+   * produce correlated logs without access to the request.
+   * Default: false
+   */
+  useAsyncContext?: boolean;
+
+  /**
+   * Labels to attach to the request context, computed per request.
+   * Only used with useAsyncContext.
+   */
+  requestLabels?: (req: IncomingMessage) => Record<string, string> | undefined;
+
+  /**
+   * Severity of the parent request entry, given the response status
+   * (undefined if no response was sent) and whether the connection was
+   * closed before the response finished.
+   * Default: defaultRequestSeverity
+   */
+  requestSeverity?: (status: number | undefined, aborted: boolean) => CloudLoggingSeverity;
+
+  /**
+   * Request headers to include in the parent request entry's payload,
+   * e.g. ['accept', 'x-request-id']. Names are case-insensitive.
+   */
+  requestHeaders?: string[];
+
+  /**
+   * Response headers to include in the parent request entry's payload,
+   * e.g. ['cache-control']. Names are case-insensitive.
+   */
+  responseHeaders?: string[];
+
+  /**
+   * Capture request and response bodies, limited by route, content type
+   * and size. Disabled by default.
+   */
+  bodies?: BodyLoggingOptions;
+}
+
+/**
+ * Request details that frameworks resolve differently from the raw
+ * node:http request (e.g. Express' trust proxy aware protocol)
+ */
+export interface RequestInfo {
+  /**
+   * Request protocol without the colon, e.g. 'https'
+   */
+  protocol?: string;
+
+  /**
+   * Client IP address, e.g. from a framework's proxy-aware resolution
+   */
+  ip?: string;
+
+  /**
+   * Host requested by the client, e.g. from a framework's proxy-aware
+   * resolution
+   */
+  host?: string;
+
+  /**
+   * Original request URL path and query string
+   */
+  url?: string;
+
+  /**
+   * Route template that matched the request, e.g. '/users/:id'.
+   * Called when the response ends, after routing.
+   */
+  route?: () => string | undefined;
+}
+
+/**
+ * Trace context and child logger for a single request
+ */
+export interface RequestCorrelation {
+  /**
+   * Child logger with trace context, or the parent logger without a project ID
+   */
+  log: Logger;
+  trace?: string;
+  spanId?: string;
+  traceSampled: boolean;
+
+  /**
+   * Run the rest of the request handling, within the request
+   * context when useAsyncContext is enabled
+   */
+  run<T>(fn: () => T): T;
+}
+
+/**
+ * Flushes the parent request entries, which are written through a
+ * LoggingCommon of their own. Call flush() or shutdown() before the
+ * process exits, as the entries are batched like in API mode.
+ */
+export interface RequestLogHandle {
+  /**
+   * Send pending parent request entries
+   *
+   * @returns True if everything was written before the deadline
+   */
+  flush(timeoutMs?: number): Promise<boolean>;
+
+  /**
+   * Send pending parent request entries and stop writing new ones
+   *
+   * @returns True if everything was written before the deadline
+   */
+  shutdown(timeoutMs?: number): Promise<boolean>;
+}
+
+/**
+ * Correlates a request: extracts trace context, creates the child logger
+ * and schedules the parent request entry
+ */
+export type RequestCorrelator = ((
+  req: IncomingMessage,
+  res: ServerResponse,
+  info?: RequestInfo
+) => RequestCorrelation) &
+  RequestLogHandle;
+
+/**
+ * Detect if running in a managed GCP environment that
+ * automatically creates request log entries.
+ */
+function isManagedEnvironment(): boolean {
+  return !!(
+    process.env.GAE_SERVICE || // App Engine
+    process.env.K_SERVICE || // Cloud Run
+    process.env.FUNCTION_NAME || // Cloud Functions (legacy)
+    process.env.K_REVISION // Cloud Functions (gen2)
+  );
+}
+
+/**
+ * Generate a trace ID for correlation
+ */
+function generateTraceId(): string {
+  return randomUUID().replace(/-/g, '');
+}
+
+/**
+ * Generate a span ID for correlation
+ */
+function generateSpanId(): string {
+  // Span ID should be a 64-bit integer as a decimal string
+  return Math.floor(Math.random() * Number.MAX_SAFE_INTEGER).toString();
+}
+
+/**
+ * Read a request header as a single string
+ */
+function getHeader(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * Parse a numeric content-length style header value
+ */
+function parseSize(value: number | string | string[] | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const size = parseInt(Array.isArray(value) ? value[0] : String(value), 10);
+  return Number.isNaN(size) ? undefined : size;
+}
+
+/**
+ * Default severity of the parent request entry: ERROR for 5xx responses,
+ * WARNING for 4xx responses and aborted requests, INFO otherwise
+ *
+ * @param status - Response status, undefined if no response was sent
+ * @param aborted - Whether the connection closed before the response finished
+ */
+export function defaultRequestSeverity(
+  status: number | undefined,
+  aborted: boolean
+): CloudLoggingSeverity {
+  if (status !== undefined && status >= 500) {
+    return 'ERROR';
+  }
+  if (aborted || (status !== undefined && status >= 400)) {
+    return 'WARNING';
+  }
+  return 'INFO';
+}
+
+/**
+ * Pick the allowed headers from a set of headers
+ */
+function pickHeaders(
+  names: string[],
+  get: (name: string) => number | string | string[] | undefined
+): Record<string, string> | undefined {
+  const headers: Record<string, string> = {};
+  for (const name of names) {
+    const value = get(name.toLowerCase());
+    if (value !== undefined) {
+      headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+  return Object.keys(headers).length > 0 ? headers : undefined;
+}
+
+/**
+ * Count the entries written through a request's child logger, and the
+ * loggers derived from it with child(), by level name
+ */
+function countEntries(log: Logger): Record<string, number> {
+  const counts: Record<string, number> = {};
+  observeEntries(log, (level) => {
+    const name = log.levels.labels[level];
+    counts[name] = (counts[name] ?? 0) + 1;
+  });
+  return counts;
+}
+
+/**
+ * Build HttpRequest object from a node:http request/response. The client's
+ * IP address, protocol and host are only taken from forwarding headers
+ * set by trusted proxies.
+ */
+export function buildHttpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  latencyMs: number,
+  info: RequestInfo = {},
+  options: HttpRequestOptions = {}
+): HttpRequest {
+  // With trustProxy, resolve the client from the forwarding headers,
+  // otherwise use what the framework resolved according to its settings
+  const trust = compileTrustProxy(options.trustProxy);
+  const forwarded = trust ? resolveForwarded(req, trust, options.forwardedHeader) : undefined;
+  const socketProtocol = (req.socket as TLSSocket).encrypted ? 'https' : 'http';
+  const protocol = forwarded
+    ? (forwarded.protocol ?? socketProtocol)
+    : (info.protocol ?? socketProtocol);
+  const remoteIp = forwarded
+    ? forwarded.ip
+    : (info.ip ?? normalizeAddress(req.socket.remoteAddress));
+
+  // HTTP/2 requests carry the host in the :authority pseudo-header
+  const host =
+    (forwarded ? forwarded.host : info.host) ??
+    getHeader(req, 'host') ??
+    getHeader(req, ':authority');
+  let url = info.url ?? req.url ?? '/';
+  if (options.stripQueryString) {
+    url = url.split('?')[0];
+  }
+
+  const httpRequest: HttpRequest = {
+    requestMethod: req.method,
+    requestUrl: host ? `${protocol}://${host}${url}` : url,
+    requestSize: parseSize(req.headers['content-length']),
+    status: res.statusCode,
+    responseSize: parseSize(res.getHeader('content-length')),
+    userAgent: getHeader(req, 'user-agent'),
+    remoteIp,
+    serverIp: normalizeAddress(req.socket.localAddress),
+    referer: getHeader(req, 'referer'),
+    latency: {
+      seconds: Math.floor(latencyMs / 1000),
+      nanos: Math.round((latencyMs % 1000) * 1e6),
+    },
+    protocol: req.httpVersionMajor === 2 ? 'HTTP/2' : `HTTP/${req.httpVersion}`,
+    ...options.cacheStatus?.(req, res),
+  };
+
+  return httpRequest;
+}
+
+/**
+ * Create the framework-agnostic request correlation used by all middleware
+ * adapters. For every request it:
+ * 1. Extracts trace context from the traceparent or X-Cloud-Trace-Context
+ *    header, or generates a new trace
+ * 2. Creates a child logger with the trace context
+ * 3. Optionally writes a parent request log entry when the response finishes
+ *    or the connection closes, with a severity following the status, and
+ *    the route, selected headers and a summary of the request's entries
+ *
+ * @param logger - The Pino logger instance
+ * @param options - Middleware options
+ * @returns Function correlating a node:http request/response pair
+ */
+export function makeRequestCorrelator(
+  logger: Logger,
+  options: MiddlewareOptions = {}
+): RequestCorrelator {
+  const projectId = options.projectId;
+  const skipParentRequestEntry =
+    options.skipParentRequestEntry ?? isManagedEnvironment();
+
+  // Create LoggingCommon for writing request logs (only if needed). The
+  // spool directory and metrics belong to the transport's instance.
+  let loggingCommon: LoggingCommon | null = null;
+  if (!skipParentRequestEntry) {
+    const { spool, onMetrics, metricsIntervalMs, openTelemetryMetrics, ...requestLogOptions } = options;
+    loggingCommon = new LoggingCommon({
+      ...requestLogOptions,
+      // Use a separate log name for request logs to enable proper correlation
+      logName: options.logName ? `${options.logName}_reqlog` : 'pino_log_reqlog',
+    });
+  }
+  // Request entries being prepared, which flush() waits for
+  const writing = new Set<Promise<void>>();
+  const requestSeverity = options.requestSeverity ?? defaultRequestSeverity;
+  const mapLevel = createSeverityMapper(options);
+  const httpRequestOptions: HttpRequestOptions = {
+    trustProxy: compileTrustProxy(options.trustProxy),
+    forwardedHeader: options.forwardedHeader,
+    stripQueryString: options.stripQueryString,
+    cacheStatus: options.cacheStatus,
+  };
+  const captureBodies = options.bodies ? createBodyCapture(options.bodies) : undefined;
+  const bodiesInRequestLog = options.bodies?.attachTo !== 'debug';
+
+  function correlateRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    info: RequestInfo = {}
+  ): RequestCorrelation {
+    const startTime = Date.now();
+
+    // Extract or generate trace context
+    let trace: string | undefined;
+    let spanId: string | undefined;
+    let traceSampled = false;
+
+    // Prefer the W3C traceparent header over X-Cloud-Trace-Context
+    const traceparent = getHeader(req, 'traceparent');
+    const traceHeader = getHeader(req, 'x-cloud-trace-context');
+
+    if (traceparent && projectId) {
+      const parsed = parseTraceparent(traceparent, projectId, getHeader(req, 'tracestate'));
+      trace = parsed.trace ?? undefined;
+      spanId = parsed.spanId ?? undefined;
+      traceSampled = parsed.sampled;
+    }
+
+    if (!trace && traceHeader && projectId) {
+      const parsed = parseTraceHeader(traceHeader, projectId);
+      trace = parsed.trace ?? undefined;
+      spanId = parsed.spanId ?? undefined;
+      traceSampled = parsed.sampled;
+    }
+
+    // Generate trace/span if not provided
+    if (!trace && projectId) {
+      const traceId = generateTraceId();
+      trace = `projects/${projectId}/traces/${traceId}`;
+    }
+
+    if (!spanId) {
+      spanId = generateSpanId();
+    }
+
+    // Create child logger with trace context; without a project ID, use the parent logger
+    const log = trace ? makeChildLogger(logger, trace, spanId, traceSampled) : logger;
+
+    const readBodies = captureBodies?.(req, res);
+    const writeParentEntry = loggingCommon !== null && trace !== undefined;
+
+    // Write the request log once the response has finished or the
+    // connection was closed before it could finish
+    if (writeParentEntry || readBodies) {
+      const capturedTrace = trace;
+      const capturedSpanId = spanId;
+      const capturedTraceSampled = traceSampled;
+      const counts = writeParentEntry ? countEntries(log) : {};
+      let written = false;
+
+      const writeRequestLog = () => {
+        if (written) {
+          return;
+        }
+        written = true;
+
+        // Without a parent request entry, the bodies get an entry of their own
+        const bodies = readBodies?.() ?? {};
+        const logBodies = () => {
+          if (Object.keys(bodies).length > 0) {
+            log.debug(bodies, 'HTTP request and response bodies');
+          }
+        };
+        if (!writeParentEntry) {
+          logBodies();
+          return;
+        }
+
+        const latencyMs = Date.now() - startTime;
+        const aborted = !res.writableFinished;
+        const httpRequest = buildHttpRequest(req, res, latencyMs, info, httpRequestOptions);
+        if (!res.headersSent) {
+          httpRequest.status = undefined;
+        }
+
+        const payload: Record<string, unknown> = {
+          requestHeaders: options.requestHeaders
+            ? pickHeaders(options.requestHeaders, (name) => req.headers[name])
+            : undefined,
+          responseHeaders: options.responseHeaders
+            ? pickHeaders(options.responseHeaders, (name) => res.getHeader(name))
+            : undefined,
+          aborted: aborted || undefined,
+          ...(bodiesInRequestLog ? bodies : undefined),
+        };
+
+        // Summarize the entries written through the request's logger
+        const levels = Object.keys(counts);
+        const maxLevel = Math.max(...levels.map((level) => log.levels.values[level]));
+        payload.childLogs = {
+          count: levels.reduce((sum, level) => sum + counts[level], 0),
+          byLevel: { ...counts },
+          maxSeverity: levels.length > 0 ? mapLevel(maxLevel) : undefined,
+        };
+        if (!bodiesInRequestLog) {
+          logBodies();
+        }
+
+        const route = info.route?.();
+
+        // Write request log asynchronously
+        const pending = loggingCommon!
+          .writeRequestLog(
+            httpRequest,
+            capturedTrace!,
+            capturedSpanId,
+            capturedTraceSampled,
+            latencyMs,
+            {
+              severity: requestSeverity(httpRequest.status ?? undefined, aborted),
+              labels: route ? { route } : undefined,
+              payload,
+            }
+          )
+          .catch((err) => {
+            console.error('pino-cloud-logging: Failed to write request log:', err);
+          })
+          .finally(() => writing.delete(pending));
+        writing.add(pending);
+      };
+
+      res.once('finish', writeRequestLog);
+      res.once('close', writeRequestLog);
+    }
+
+    let run = <T>(fn: () => T): T => fn();
+    if (options.useAsyncContext) {
+      const context: RequestContext = {
+        trace,
+        spanId,
+        traceSampled,
+        labels: options.requestLabels?.(req),
+      };
+      run = (fn) => runWithRequestContext(context, fn);
+    }
+
+    return { log, trace, spanId, traceSampled, run };
+  }
+
+  return Object.assign(correlateRequest, {
+    async flush(timeoutMs?: number): Promise<boolean> {
+      await Promise.all(writing);
+      return loggingCommon ? loggingCommon.flush(timeoutMs) : true;
+    },
+    async shutdown(timeoutMs?: number): Promise<boolean> {
+      await Promise.all(writing);
+      return loggingCommon ? loggingCommon.shutdown(timeoutMs) : true;
+    },
+  });
+}
@@ -0,0 +1,69 @@
+import type { FastifyPluginCallback } from 'fastify';
+import type { Logger } from 'pino';
+import { makeRequestCorrelator, type MiddlewareOptions, type RequestLogHandle } from './core.js';
+
+/**
+ * Create a Fastify plugin for Google Cloud Logging request correlation.
+ *
+ * The plugin adds an onRequest hook that replaces request.log with a
+ * child logger carrying the trace context, and optionally creates a
+ * parent request log entry. The hook applies to the whole application,
+ * not only to the encapsulation context it is registered in. Closing the
+ * application shuts down the writer of the parent request entries.
+ *
+ * @param logger - The Pino logger instance
+ * @param options - Middleware options
+ * @returns Fastify plugin, with flush() and shutdown() for the parent
+ *   request entries
+ *
+ * @example
+ * ```typescript
+ * import Fastify from 'fastify';
+ * import pino from 'pino';
+ * import { makeFastifyPlugin } from 'pino-cloud-logging/middleware';
+ *
+ * const logger = pino({ ... });
+ * const app = Fastify();
+ *
+ * app.register(makeFastifyPlugin(logger, { projectId: 'my-project' }));
+ *
+ * app.get('/', async (request) => {
+ *   // request.log is a child logger with trace context
+ *   request.log.info('Handling request');
+ *   return 'Hello!';
+ * });
+ * ```
+ */
+export function makeFastifyPlugin(
+  logger: Logger,
+  options: MiddlewareOptions = {}
+): FastifyPluginCallback & RequestLogHandle {
+  const correlateRequest = makeRequestCorrelator(logger, options);
+
+  const plugin: FastifyPluginCallback = (fastify, _opts, done) => {
+    fastify.addHook('onRequest', (request, reply, hookDone) => {
+      // Fastify resolves the protocol, IP and host according to its trustProxy option
+      const { log, run } = correlateRequest(request.raw, reply.raw, {
+        protocol: request.protocol,
+        ip: request.ip,
+        host: request.hostname,
+        url: request.url,
+        route: () => request.routeOptions?.url,
+      });
+      request.log = log;
+      run(() => hookDone());
+    });
+    fastify.addHook('onClose', async () => {
+      await correlateRequest.shutdown();
+    });
+    done();
+  };
+
+  // Same as wrapping with fastify-plugin: don't encapsulate the hook
+  (plugin as unknown as Record<symbol, unknown>)[Symbol.for('skip-override')] = true;
+
+  return Object.assign(plugin, {
+    flush: correlateRequest.flush,
+    shutdown: correlateRequest.shutdown,
+  });
+}
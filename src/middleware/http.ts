@@ -0,0 +1,63 @@
+import type { IncomingMessage, RequestListener, ServerResponse } from 'node:http';
+import type { Logger } from 'pino';
+import { makeRequestCorrelator, type MiddlewareOptions, type RequestLogHandle } from './core.js';
+
+/**
+ * Extended node:http request with logging properties
+ */
+export interface LoggingIncomingMessage extends IncomingMessage {
+  /**
+   * Child logger with trace context for this request
+   */
+  log?: Logger;
+}
+
+/**
+ * Wrap a node:http request listener with Google Cloud Logging
+ * request correlation.
+ *
+ * The wrapper sets req.log to a child logger carrying the trace context,
+ * optionally creates a parent request log entry, and then calls the listener.
+ *
+ * @param logger - The Pino logger instance
+ * @param listener - The request listener to wrap
+ * @param options - Middleware options
+ * @returns Request listener for http.createServer(), with flush() and
+ *   shutdown() for the parent request entries
+ *
+ * @example
+ * ```typescript
+ * import http from 'node:http';
+ * import pino from 'pino';
+ * import { makeRequestListener } from 'pino-cloud-logging/middleware';
+ *
+ * const logger = pino({ ... });
+ *
+ * const server = http.createServer(
+ *   makeRequestListener(logger, (req, res) => {
+ *     req.log?.info('Handling request');
+ *     res.end('Hello!');
+ *   }, { projectId: 'my-project' })
+ * );
+ * ```
+ */
+export function makeRequestListener(
+  logger: Logger,
+  listener: (req: LoggingIncomingMessage, res: ServerResponse) => void,
+  options: MiddlewareOptions = {}
+): RequestListener & RequestLogHandle {
+  const correlateRequest = makeRequestCorrelator(logger, options);
+
+  const requestListener: RequestListener = function cloudLoggingRequestListener(req, res): void {
+    const loggingReq = req as LoggingIncomingMessage;
+    const { log, run } = correlateRequest(req, res);
+    loggingReq.log = log;
+
+    run(() => listener(loggingReq, res));
+  };
+
+  return Object.assign(requestListener, {
+    flush: correlateRequest.flush,
+    shutdown: correlateRequest.shutdown,
+  });
+}
@@ -1,2 +1,25 @@
 export { makeMiddleware, type MiddlewareOptions, type LoggingRequest } from './express.js';
-export { makeChildLogger } from './child-logger.js';
+export { makeFastifyPlugin } from './fastify.js';
+export { makeKoaMiddleware, type LoggingContext } from './koa.js';
+export { makeRequestListener, type LoggingIncomingMessage } from './http.js';
+export {
+  makeRequestCorrelator,
+  buildHttpRequest,
+  defaultRequestSeverity,
+  type RequestInfo,
+  type RequestCorrelation,
+  type RequestCorrelator,
+  type RequestLogHandle,
+  type HttpRequestOptions,
+  type RequestCacheStatus,
+} from './core.js';
+export { type TrustProxy, type TrustFunction, type ForwardedHeader } from './proxy.js';
+export { type BodyLoggingOptions } from './body.js';
+export {
+  traceMixin,
+  runWithRequestContext,
+  getRequestContext,
+  addRequestLabels,
+  type RequestContext,
+} from './context.js';
+export { makeChildLogger, makeOperationLogger, type OperationLogger } from './child-logger.js';
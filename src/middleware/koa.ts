@@ -0,0 +1,71 @@
+import type { Context, Middleware } from 'koa';
+import type { Logger } from 'pino';
+import { makeRequestCorrelator, type MiddlewareOptions, type RequestLogHandle } from './core.js';
+
+/**
+ * Extended Koa context with logging properties
+ */
+export interface LoggingContext extends Context {
+  /**
+   * Child logger with trace context for this request
+   */
+  log?: Logger;
+}
+
+/**
+ * Create Koa middleware for Google Cloud Logging request correlation.
+ *
+ * The middleware sets ctx.log to a child logger carrying the trace
+ * context, and optionally creates a parent request log entry.
+ *
+ * @param logger - The Pino logger instance
+ * @param options - Middleware options
+ * @returns Koa middleware function, with flush() and shutdown() for the
+ *   parent request entries
+ *
+ * @example
+ * ```typescript
+ * import Koa from 'koa';
+ * import pino from 'pino';
+ * import { makeKoaMiddleware, type LoggingContext } from 'pino-cloud-logging/middleware';
+ *
+ * const logger = pino({ ... });
+ * const app = new Koa();
+ *
+ * app.use(makeKoaMiddleware(logger, { projectId: 'my-project' }));
+ *
+ * app.use(async (ctx) => {
+ *   (ctx as LoggingContext).log?.info('Handling request');
+ *   ctx.body = 'Hello!';
+ * });
+ * ```
+ */
+export function makeKoaMiddleware(
+  logger: Logger,
+  options: MiddlewareOptions = {}
+): Middleware & RequestLogHandle {
+  const correlateRequest = makeRequestCorrelator(logger, options);
+
+  const middleware: Middleware = async function cloudLoggingKoaMiddleware(ctx, next): Promise<void> {
+    // Koa resolves the protocol, IP and host according to its proxy setting
+    const { log, run } = correlateRequest(ctx.req, ctx.res, {
+      protocol: ctx.protocol,
+      ip: ctx.ip,
+      host: ctx.host,
+      url: ctx.originalUrl,
+      // Set by @koa/router for the route that handled the request
+      route: () => {
+        const route = (ctx as { _matchedRoute?: unknown })._matchedRoute;
+        return typeof route === 'string' ? route : undefined;
+      },
+    });
+    (ctx as LoggingContext).log = log;
+
+    await run(() => next());
+  };
+
+  return Object.assign(middleware, {
+    flush: correlateRequest.flush,
+    shutdown: correlateRequest.shutdown,
+  });
+}
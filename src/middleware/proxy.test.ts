@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { IncomingMessage } from 'node:http';
+import {
+  compileTrustProxy,
+  normalizeAddress,
+  resolveForwarded,
+  type ForwardedHeader,
+  type TrustProxy,
+} from './proxy.js';
+
+function request(remoteAddress: string, headers: IncomingMessage['headers'] = {}): IncomingMessage {
+  return { socket: { remoteAddress }, headers } as IncomingMessage;
+}
+
+function resolve(req: IncomingMessage, trust: TrustProxy, header?: ForwardedHeader) {
+  return resolveForwarded(req, compileTrustProxy(trust)!, header);
+}
+
+test('normalizes IPv4-mapped IPv6 addresses', () => {
+  assert.equal(normalizeAddress('::ffff:10.0.0.1'), '10.0.0.1');
+  assert.equal(normalizeAddress('::ffff:abcd'), '::ffff:abcd');
+  assert.equal(normalizeAddress('2001:db8::1'), '2001:db8::1');
+  assert.equal(normalizeAddress(undefined), undefined);
+});
+
+test('ignores forwarded headers from an untrusted peer', () => {
+  const req = request('203.0.113.9', {
+    'x-forwarded-for': '6.6.6.6',
+    'x-forwarded-proto': 'https',
+    'x-forwarded-host': 'evil.example',
+  });
+  assert.deepEqual(resolve(req, '10.0.0.0/8'), { ip: '203.0.113.9', protocol: undefined, host: undefined });
+  assert.deepEqual(resolve(req, false), { ip: '203.0.113.9', protocol: undefined, host: undefined });
+});
+
+test('ignores a Forwarded header sent by the client by default', () => {
+  // The proxy appended the client to X-Forwarded-For and passed the
+  // client's own Forwarded header on unchanged
+  const req = request('::ffff:10.0.0.1', {
+    forwarded: 'for=6.6.6.6;proto=http;host=evil.example',
+    'x-forwarded-for': '203.0.113.9',
+    'x-forwarded-proto': 'https',
+    'x-forwarded-host': 'app.example',
+  });
+  const expected = { ip: '203.0.113.9', protocol: 'https', host: 'app.example' };
+  assert.deepEqual(resolve(req, 1), expected);
+  assert.deepEqual(resolve(req, '10.0.0.0/8'), expected);
+  assert.deepEqual(resolve(req, 'uniquelocal'), expected);
+});
+
+test('ignores addresses the client prepended to X-Forwarded-For', () => {
+  const req = request('10.0.0.1', { 'x-forwarded-for': '6.6.6.6, 203.0.113.9, 10.0.0.2' });
+  assert.equal(resolve(req, '10.0.0.0/8').ip, '203.0.113.9');
+  assert.equal(resolve(req, 2).ip, '203.0.113.9');
+  assert.equal(resolve(req, 1).ip, '10.0.0.2');
+  // Trusting every proxy trusts the client's own header too
+  assert.equal(resolve(req, true).ip, '6.6.6.6');
+});
+
+test('reads the Forwarded header when configured', () => {
+  const req = request('10.0.0.1', {
+    forwarded: 'for=6.6.6.6, for="[2001:db8::1]:4711";proto=HTTPS;host="app.example"',
+    'x-forwarded-for': '198.51.100.1',
+  });
+  assert.deepEqual(resolve(req, 1, 'forwarded'), {
+    ip: '2001:db8::1',
+    protocol: 'https',
+    host: 'app.example',
+  });
+  assert.equal(resolve(req, 'loopback, 10.0.0.1', 'forwarded').ip, '2001:db8::1');
+  assert.equal(resolve(req, true, 'forwarded').ip, '6.6.6.6');
+});
+
+test('stops at obfuscated and unknown nodes', () => {
+  const req = request('10.0.0.1', { forwarded: 'for=unknown;proto=https', 'x-forwarded-for': '_hidden' });
+  assert.deepEqual(resolve(req, true, 'forwarded'), { protocol: 'https', host: undefined });
+  assert.deepEqual(resolve(req, true), { protocol: undefined, host: undefined });
+});
+
+test('calls trust functions with the address and hop', () => {
+  const calls: Array<[string, number]> = [];
+  const req = request('10.0.0.1', { 'x-forwarded-for': '203.0.113.9, 10.0.0.2' });
+  const result = resolveForwarded(req, (address, hop) => {
+    calls.push([address, hop]);
+    return address.startsWith('10.');
+  });
+  assert.equal(result.ip, '203.0.113.9');
+  assert.deepEqual(calls, [
+    ['10.0.0.1', 0],
+    ['10.0.0.2', 1],
+  ]);
+});
+
+test('rejects invalid trustProxy addresses', () => {
+  assert.equal(compileTrustProxy(undefined), undefined);
+  for (const trust of ['nope', '10.0.0.0/33', ['::1/129']]) {
+    assert.throws(() => compileTrustProxy(trust), /invalid trustProxy address/);
+  }
+});
@@ -0,0 +1,235 @@
+import { BlockList, isIP } from 'node:net';
+import type { IncomingMessage } from 'node:http';
+
+/**
+ * Decides whether the proxy at an address is trusted to report the
+ * client it forwards for. hop is 0 for the address connected to the
+ * server, 1 for the proxy before it, and so on.
+ */
+export type TrustFunction = (address: string, hop: number) => boolean;
+
+/**
+ * Which proxies are trusted, following Express' trust proxy setting:
+ * - true: all proxies, the client is the leftmost forwarded address
+ * - number: the given number of hops in front of the server
+ * - string or string[]: addresses or CIDR ranges, e.g. '10.0.0.0/8', or
+ *   the names 'loopback', 'linklocal' and 'uniquelocal'. A string may
+ *   list several separated by commas
+ * - function: called for each hop
+ */
+export type TrustProxy = boolean | number | string | string[] | TrustFunction;
+
+/**
+ * Header the trusted proxies report the client in:
+ * - 'x-forwarded': X-Forwarded-For, X-Forwarded-Proto and X-Forwarded-Host
+ * - 'forwarded': the standard Forwarded header (RFC 7239)
+ */
+export type ForwardedHeader = 'x-forwarded' | 'forwarded';
+
+/**
+ * Named address ranges of trust proxy settings
+ */
+const NAMED_RANGES: Record<string, string[]> = {
+  loopback: ['127.0.0.1/8', '::1/128'],
+  linklocal: ['169.254.0.0/16', 'fe80::/10'],
+  uniquelocal: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7'],
+};
+
+/**
+ * Client details reported by trusted proxies
+ */
+export interface ForwardedRequest {
+  /**
+   * Client IP address, undefined if a proxy hid it (e.g. 'for=unknown')
+   */
+  ip?: string;
+
+  /**
+   * Protocol of the client's request, e.g. 'https'
+   */
+  protocol?: string;
+
+  /**
+   * Host requested by the client
+   */
+  host?: string;
+}
+
+/**
+ * One hop of a Forwarded or X-Forwarded-For header
+ */
+interface ForwardedElement {
+  for?: string;
+  proto?: string;
+  host?: string;
+}
+
+/**
+ * Convert IPv4-mapped IPv6 addresses such as '::ffff:10.0.0.1' to IPv4
+ */
+export function normalizeAddress(address: string | undefined): string | undefined {
+  return address?.startsWith('::ffff:') && isIP(address.slice(7)) === 4
+    ? address.slice(7)
+    : address;
+}
+
+/**
+ * Compile a trust proxy setting into a function
+ *
+ * @param trust - The trust proxy setting
+ * @returns The trust function, or undefined if the setting is not set
+ */
+export function compileTrustProxy(trust: TrustProxy | undefined): TrustFunction | undefined {
+  if (trust === undefined || typeof trust === 'function') {
+    return trust;
+  }
+  if (typeof trust === 'boolean') {
+    return () => trust;
+  }
+  if (typeof trust === 'number') {
+    return (_address, hop) => hop < trust;
+  }
+
+  const blockList = new BlockList();
+  const ranges = (Array.isArray(trust) ? trust : trust.split(','))
+    .map((range) => range.trim())
+    .filter((range) => range !== '')
+    .flatMap((range) => NAMED_RANGES[range] ?? [range]);
+  for (const range of ranges) {
+    const [address, prefix] = range.split('/');
+    const type = isIP(address);
+    const bits = prefix === undefined ? (type === 4 ? 32 : 128) : Number(prefix);
+    if (type === 0 || !Number.isInteger(bits) || bits < 0 || bits > (type === 4 ? 32 : 128)) {
+      throw new Error(`pino-cloud-logging: invalid trustProxy address "${range}"`);
+    }
+    blockList.addSubnet(address, bits, type === 4 ? 'ipv4' : 'ipv6');
+  }
+  return (address) => {
+    const type = isIP(address);
+    return type !== 0 && blockList.check(address, type === 4 ? 'ipv4' : 'ipv6');
+  };
+}
+
+/**
+ * Remove the quotes of a quoted-string header parameter value
+ */
+function unquote(value: string): string {
+  return value.startsWith('"') && value.endsWith('"') && value.length > 1
+    ? value.slice(1, -1).replace(/\\(.)/g, '$1')
+    : value;
+}
+
+/**
+ * Get the IP address of a Forwarded 'for' node, without port and IPv6
+ * brackets, e.g. '[2001:db8::1]:4711' is '2001:db8::1'
+ */
+function nodeAddress(node: string): string {
+  if (node.startsWith('[')) {
+    const end = node.indexOf(']');
+    return end === -1 ? node.slice(1) : node.slice(1, end);
+  }
+  const colon = node.indexOf(':');
+  return colon !== -1 && node.indexOf(':', colon + 1) === -1 ? node.slice(0, colon) : node;
+}
+
+/**
+ * Parse a Forwarded header (RFC 7239), e.g.
+ * 'for=192.0.2.60;proto=https, for="[2001:db8::1]"'
+ */
+function parseForwarded(header: string): ForwardedElement[] {
+  const elements: ForwardedElement[] = [];
+  // Commas and semicolons may appear within quoted strings
+  for (const element of header.match(/(?:[^,"]|"(?:[^"\\]|\\.)*")+/g) ?? []) {
+    const parsed: ForwardedElement = {};
+    for (const pair of element.match(/(?:[^;"]|"(?:[^"\\]|\\.)*")+/g) ?? []) {
+      const separator = pair.indexOf('=');
+      if (separator === -1) {
+        continue;
+      }
+      const name = pair.slice(0, separator).trim().toLowerCase();
+      const value = unquote(pair.slice(separator + 1).trim());
+      if (name === 'for') {
+        parsed.for = nodeAddress(value);
+      } else if (name === 'proto') {
+        parsed.proto = value.toLowerCase();
+      } else if (name === 'host') {
+        parsed.host = value;
+      }
+    }
+    elements.push(parsed);
+  }
+  return elements;
+}
+
+/**
+ * Get the first value of a comma-separated header
+ */
+function firstValue(value: string | string[] | undefined): string | undefined {
+  const header = Array.isArray(value) ? value[0] : value;
+  return header?.split(',')[0].trim() || undefined;
+}
+
+/**
+ * Get the hops a request was forwarded through, the client first. Only
+ * the header the proxies set is read: a client may send the other one
+ * itself, and proxies pass it on unchanged.
+ */
+function forwardedElements(req: IncomingMessage, header: ForwardedHeader): ForwardedElement[] {
+  if (header === 'forwarded') {
+    const forwarded = req.headers.forwarded;
+    return forwarded ? parseForwarded(forwarded) : [];
+  }
+
+  const forwardedFor = req.headers['x-forwarded-for'];
+  const addresses = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter((address) => address !== '');
+  if (addresses.length === 0) {
+    return [];
+  }
+
+  // Proxies set these once for the client's request, not for every hop
+  const proto = firstValue(req.headers['x-forwarded-proto'])?.toLowerCase();
+  const host = firstValue(req.headers['x-forwarded-host']);
+  return addresses.map((address) => ({ for: nodeAddress(address), proto, host }));
+}
+
+/**
+ * Resolve the client of a request by walking the forwarded hops from the
+ * server towards the client while the proxies are trusted. Headers added
+ * by untrusted clients are ignored, so they cannot spoof their address.
+ *
+ * @param req - The node:http request
+ * @param trust - Trust function of the proxies
+ * @param header - Header the proxies report the client in
+ * @returns The client details; protocol and host are only set when the
+ *   connected peer is a trusted proxy that reported them
+ */
+export function resolveForwarded(
+  req: IncomingMessage,
+  trust: TrustFunction,
+  header: ForwardedHeader = 'x-forwarded'
+): ForwardedRequest {
+  const socketAddress = normalizeAddress(req.socket.remoteAddress);
+  if (socketAddress === undefined) {
+    return {};
+  }
+
+  const elements = forwardedElements(req, header);
+  let address = socketAddress;
+  let hop = 0;
+  let element: ForwardedElement | undefined;
+  while (hop < elements.length && trust(address, hop)) {
+    element = elements[elements.length - 1 - hop];
+    // Obfuscated or unknown nodes end the chain
+    const next = normalizeAddress(element.for);
+    if (next === undefined || isIP(next) === 0) {
+      return { protocol: element.proto, host: element.host };
+    }
+    address = next;
+    hop++;
+  }
+
+  return { ip: address, protocol: element?.proto, host: element?.host };
+}
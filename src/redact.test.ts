@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRedactor, parseRedactPath } from './redact.js';
+import type { LogEntryParts } from './types.js';
+
+test('parses dotted, bracketed and wildcard paths', () => {
+  assert.deepEqual(parseRedactPath('user.password'), ['user', 'password']);
+  assert.deepEqual(parseRedactPath('headers["x-api-key"]'), ['headers', 'x-api-key']);
+  assert.deepEqual(parseRedactPath("a['b.c'][0]"), ['a', 'b.c', '0']);
+  assert.deepEqual(parseRedactPath('users[*].email'), ['users', '*', 'email']);
+});
+
+test('rejects invalid paths', () => {
+  for (const path of ['', '.a', 'a[', 'a["b]']) {
+    assert.throws(() => parseRedactPath(path), /invalid redact path/);
+  }
+});
+
+test('redacts payload paths without modifying the original objects', () => {
+  const user = { name: 'ada', password: 'secret' };
+  const entry: LogEntryParts = {
+    metadata: {},
+    data: { user, users: [{ email: 'a@x' }, { email: 'b@x' }], headers: { 'x-api-key': 'k' } },
+  };
+
+  createRedactor(['user.password', 'users[*].email', 'headers["x-api-key"]', 'missing.path'])(entry);
+
+  assert.deepEqual(entry.data, {
+    user: { name: 'ada', password: '[REDACTED]' },
+    users: [{ email: '[REDACTED]' }, { email: '[REDACTED]' }],
+    headers: { 'x-api-key': '[REDACTED]' },
+  });
+  assert.equal(user.password, 'secret');
+});
+
+test('redacts httpRequest and labels in the metadata', () => {
+  const entry: LogEntryParts = {
+    metadata: { httpRequest: { remoteIp: '10.0.0.1' }, labels: { token: 't' } },
+    data: { labels: { token: 'payload' } },
+  };
+
+  createRedactor(['httpRequest.remoteIp', 'labels.token'])(entry);
+
+  assert.equal(entry.metadata.httpRequest?.remoteIp, '[REDACTED]');
+  assert.equal(entry.metadata.labels?.token, '[REDACTED]');
+  assert.deepEqual(entry.data, { labels: { token: 'payload' } });
+});
+
+test('removes keys or applies a censor function', () => {
+  const removed: LogEntryParts = { metadata: {}, data: { a: { b: 1, c: 2 } } };
+  createRedactor({ paths: ['a.b'], remove: true })(removed);
+  assert.deepEqual(removed.data, { a: { c: 2 } });
+
+  const censored: LogEntryParts = { metadata: {}, data: { card: '4111111111111111' } };
+  createRedactor({
+    paths: ['card'],
+    censor: (value, path) => `${path.join('.')}:${String(value).slice(-4)}`,
+  })(censored);
+  assert.deepEqual(censored.data, { card: 'card:1111' });
+});
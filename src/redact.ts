@@ -0,0 +1,102 @@
+/**
+ * Redaction of log entry fields
+ */
+
+import type { LogEntryParts, RedactCensor, RedactOptions } from './types.js';
+
+const DEFAULT_CENSOR = '[REDACTED]';
+
+/**
+ * Entry metadata fields that redact paths may address
+ */
+const METADATA_ROOTS = new Set(['httpRequest', 'labels']);
+
+/**
+ * Split a redact path into keys, e.g. 'a.b["c-d"][*]' into ['a', 'b', 'c-d', '*']
+ */
+export function parseRedactPath(path: string): string[] {
+  const keys: string[] = [];
+  const token = /(?:^|\.)([^.[\]]+)|\[(?:"([^"]*)"|'([^']*)'|(\*|\d+))\]/y;
+
+  while (token.lastIndex < path.length) {
+    const match = token.exec(path);
+    if (!match) {
+      break;
+    }
+    keys.push(match[1] ?? match[2] ?? match[3] ?? match[4]);
+  }
+
+  if (keys.length === 0 || path.startsWith('.') || token.lastIndex !== path.length) {
+    throw new Error(`pino-cloud-logging: invalid redact path "${path}"`);
+  }
+  return keys;
+}
+
+/**
+ * Redact the value at a path, copying every object along the way so
+ * that objects shared with the caller are never modified
+ */
+function redactAt(
+  value: unknown,
+  keys: string[],
+  index: number,
+  trail: string[],
+  censor: RedactCensor,
+  remove: boolean
+): unknown {
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const container = value as Record<string, unknown>;
+  const key = keys[index];
+  const matched =
+    key === '*'
+      ? Object.keys(container)
+      : Object.prototype.hasOwnProperty.call(container, key)
+        ? [key]
+        : [];
+  if (matched.length === 0) {
+    return value;
+  }
+
+  const copy = (Array.isArray(value) ? [...value] : { ...container }) as Record<string, unknown>;
+  for (const name of matched) {
+    const path = [...trail, name];
+    if (index < keys.length - 1) {
+      copy[name] = redactAt(container[name], keys, index + 1, path, censor, remove);
+    } else if (remove) {
+      delete copy[name];
+    } else {
+      copy[name] = typeof censor === 'function' ? censor(container[name], path) : censor;
+    }
+  }
+  return copy;
+}
+
+/**
+ * Create a function redacting the configured paths from an entry.
+ * Paths starting with httpRequest or labels address the entry metadata,
+ * all other paths address the JSON payload.
+ *
+ * @param options - Paths to redact, or full redaction options
+ * @returns Function replacing the redacted parts of an entry
+ */
+export function createRedactor(
+  options: string[] | RedactOptions
+): (entry: LogEntryParts) => void {
+  const { paths, censor = DEFAULT_CENSOR, remove = false } = Array.isArray(options)
+    ? { paths: options }
+    : options;
+  const compiled = paths.map(parseRedactPath);
+
+  return function redact(entry: LogEntryParts): void {
+    for (const keys of compiled) {
+      if (METADATA_ROOTS.has(keys[0])) {
+        entry.metadata = redactAt(entry.metadata, keys, 0, [], censor, remove) as LogEntryParts['metadata'];
+      } else {
+        entry.data = redactAt(entry.data, keys, 0, [], censor, remove) as LogEntryParts['data'];
+      }
+    }
+  };
+}
@@ -0,0 +1,171 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { LoggingCommon } from './common.js';
+import { createMetadataLookup, detectResource } from './resource.js';
+import { MemorySink } from './testing/memory-sink.js';
+import type { MetadataLookup } from './types.js';
+
+const ENV_KEYS = [
+  'GOOGLE_CLOUD_PROJECT',
+  'GCLOUD_PROJECT',
+  'FUNCTION_TARGET',
+  'FUNCTION_NAME',
+  'FUNCTION_REGION',
+  'K_SERVICE',
+  'K_REVISION',
+  'K_CONFIGURATION',
+  'GAE_SERVICE',
+  'GAE_VERSION',
+  'KUBERNETES_SERVICE_HOST',
+  'NAMESPACE',
+  'POD_NAMESPACE',
+  'HOSTNAME',
+  'CONTAINER_NAME',
+  'GCE_METADATA_HOST',
+];
+
+/**
+ * Run a function with only the given detection variables set
+ */
+async function withEnv<T>(env: Record<string, string>, fn: () => Promise<T>): Promise<T> {
+  const saved = new Map(ENV_KEYS.map((key) => [key, process.env[key]]));
+  for (const key of ENV_KEYS) {
+    delete process.env[key];
+  }
+  Object.assign(process.env, env);
+  try {
+    return await fn();
+  } finally {
+    for (const [key, value] of saved) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  }
+}
+
+/**
+ * A metadata lookup answering from a fixed set of paths
+ */
+function metadata(values: Record<string, string>): MetadataLookup {
+  return async (path) => values[path];
+}
+
+const GCE_METADATA = metadata({
+  'project/project-id': 'meta-project',
+  'instance/id': '1234',
+  'instance/zone': 'projects/99/zones/europe-west1-b',
+  'instance/region': 'projects/99/regions/europe-west1',
+  'instance/attributes/cluster-name': 'main',
+  'instance/attributes/cluster-location': 'europe-west1',
+});
+
+test('detects Cloud Run services', async () => {
+  const env = { K_SERVICE: 'api', K_REVISION: 'api-00002', K_CONFIGURATION: 'api' };
+  const resource = await withEnv(env, () => detectResource({ metadataLookup: GCE_METADATA }, 'my-project'));
+  assert.deepEqual(resource, {
+    type: 'cloud_run_revision',
+    labels: {
+      project_id: 'my-project',
+      service_name: 'api',
+      revision_name: 'api-00002',
+      configuration_name: 'api',
+      location: 'europe-west1',
+    },
+  });
+});
+
+test('prefers Cloud Functions over Cloud Run', async () => {
+  const env = { FUNCTION_TARGET: 'handler', K_SERVICE: 'fn', FUNCTION_REGION: 'us-east1' };
+  const resource = await withEnv(env, () => detectResource({ metadataLookup: GCE_METADATA }));
+  assert.deepEqual(resource, {
+    type: 'cloud_function',
+    labels: { project_id: 'meta-project', function_name: 'fn', region: 'us-east1' },
+  });
+});
+
+test('detects App Engine and Kubernetes', async () => {
+  const gaeEnv = { GAE_SERVICE: 'default', GAE_VERSION: 'v1', GOOGLE_CLOUD_PROJECT: 'env-project' };
+  const gae = await withEnv(gaeEnv, () => detectResource({ metadataLookup: GCE_METADATA }));
+  assert.deepEqual(gae, {
+    type: 'gae_app',
+    labels: { project_id: 'env-project', module_id: 'default', version_id: 'v1', zone: 'europe-west1-b' },
+  });
+
+  const k8sEnv = {
+    KUBERNETES_SERVICE_HOST: '10.0.0.1',
+    POD_NAMESPACE: 'shop',
+    HOSTNAME: 'api-7d9f',
+    CONTAINER_NAME: 'api',
+  };
+  const k8s = await withEnv(k8sEnv, () => detectResource({ metadataLookup: GCE_METADATA }));
+  assert.deepEqual(k8s, {
+    type: 'k8s_container',
+    labels: {
+      project_id: 'meta-project',
+      cluster_name: 'main',
+      location: 'europe-west1',
+      namespace_name: 'shop',
+      pod_name: 'api-7d9f',
+      container_name: 'api',
+    },
+  });
+});
+
+test('falls back to GCE instances, then the global resource', async () => {
+  const gce = await withEnv({}, () => detectResource({ metadataLookup: GCE_METADATA }));
+  assert.deepEqual(gce, {
+    type: 'gce_instance',
+    labels: { project_id: 'meta-project', instance_id: '1234', zone: 'europe-west1-b' },
+  });
+
+  const global = await withEnv({}, () => detectResource({ metadataLookup: metadata({}) }, 'my-project'));
+  assert.deepEqual(global, { type: 'global', labels: { project_id: 'my-project' } });
+});
+
+test('queries the metadata server with the metadata flavor header', async () => {
+  const server = createServer((req, res) => {
+    if (req.headers['metadata-flavor'] !== 'Google' || req.url !== '/computeMetadata/v1/instance/id') {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+    res.end('5678');
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  try {
+    const { port } = server.address() as AddressInfo;
+    await withEnv({ GCE_METADATA_HOST: `127.0.0.1:${port}` }, async () => {
+      const lookup = createMetadataLookup(1000);
+      assert.equal(await lookup('instance/id'), '5678');
+      assert.equal(await lookup('instance/zone'), undefined);
+    });
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
+
+test('applies the detected resource to written entries', async () => {
+  const sink = new MemorySink();
+  const logging = await withEnv(
+    { K_SERVICE: 'api' },
+    async () =>
+      new LoggingCommon({
+        projectId: 'my-project',
+        writer: sink,
+        detectResource: { metadataLookup: metadata({}) },
+      })
+  );
+
+  await logging.writeLog({ level: 30, time: Date.now(), msg: 'hello' });
+  await logging.flush();
+  assert.deepEqual(sink.entries[0].resource, {
+    type: 'cloud_run_revision',
+    labels: { project_id: 'my-project', service_name: 'api' },
+  });
+  await logging.shutdown();
+});
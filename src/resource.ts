@@ -0,0 +1,168 @@
+/**
+ * Monitored resource detection for Google Cloud environments
+ */
+
+import { readFile } from 'node:fs/promises';
+import type { MetadataLookup, MonitoredResource, ResourceDetectionOptions } from './types.js';
+
+const METADATA_HOST = 'metadata.google.internal';
+const DEFAULT_METADATA_TIMEOUT_MS = 3000;
+const K8S_NAMESPACE_FILE = '/var/run/secrets/kubernetes.io/serviceaccount/namespace';
+
+/**
+ * Create a lookup that queries the GCE metadata server over HTTP.
+ * The host can be overridden with the GCE_METADATA_HOST environment variable.
+ *
+ * @param timeoutMs - Timeout for each request
+ * @returns A lookup resolving to the value, or undefined if unavailable
+ */
+export function createMetadataLookup(
+  timeoutMs: number = DEFAULT_METADATA_TIMEOUT_MS
+): MetadataLookup {
+  const host = process.env.GCE_METADATA_HOST || METADATA_HOST;
+
+  return async function metadataLookup(path: string): Promise<string | undefined> {
+    try {
+      const response = await fetch(`http://${host}/computeMetadata/v1/${path}`, {
+        headers: { 'Metadata-Flavor': 'Google' },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) {
+        return undefined;
+      }
+      return await response.text();
+    } catch {
+      return undefined;
+    }
+  };
+}
+
+/**
+ * Extract the last segment of a metadata value such as
+ * projects/123/zones/us-central1-a
+ */
+function lastSegment(value: string | undefined): string | undefined {
+  return value?.split('/').pop() || undefined;
+}
+
+/**
+ * Read the Kubernetes namespace from the environment or the
+ * service account mount
+ */
+async function getK8sNamespace(): Promise<string | undefined> {
+  const fromEnv = process.env.NAMESPACE || process.env.POD_NAMESPACE;
+  if (fromEnv) {
+    return fromEnv;
+  }
+  try {
+    return (await readFile(K8S_NAMESPACE_FILE, 'utf8')).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Drop labels without a value
+ */
+function compactLabels(labels: Record<string, string | undefined>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(labels)) {
+    if (value) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Detect the monitored resource for the current environment.
+ *
+ * Supported resource types, in order of precedence:
+ * - cloud_function (FUNCTION_TARGET, or FUNCTION_NAME for 1st gen)
+ * - cloud_run_revision (K_SERVICE)
+ * - gae_app (GAE_SERVICE)
+ * - k8s_container (KUBERNETES_SERVICE_HOST)
+ * - gce_instance (metadata server reachable)
+ * - global (fallback)
+ *
+ * @param options - Detection options, including the metadata lookup to use
+ * @param projectId - Project ID to use when the metadata server does not provide one
+ * @returns The detected monitored resource
+ */
+export async function detectResource(
+  options: ResourceDetectionOptions = {},
+  projectId?: string
+): Promise<MonitoredResource> {
+  const env = process.env;
+  const lookup = options.metadataLookup ?? createMetadataLookup(options.timeoutMs);
+
+  const resolvedProjectId =
+    projectId || env.GOOGLE_CLOUD_PROJECT || env.GCLOUD_PROJECT || (await lookup('project/project-id'));
+
+  if (env.FUNCTION_TARGET || env.FUNCTION_NAME) {
+    return {
+      type: 'cloud_function',
+      labels: compactLabels({
+        project_id: resolvedProjectId,
+        function_name: env.K_SERVICE || env.FUNCTION_NAME || env.FUNCTION_TARGET,
+        region: env.FUNCTION_REGION || lastSegment(await lookup('instance/region')),
+      }),
+    };
+  }
+
+  if (env.K_SERVICE) {
+    return {
+      type: 'cloud_run_revision',
+      labels: compactLabels({
+        project_id: resolvedProjectId,
+        service_name: env.K_SERVICE,
+        revision_name: env.K_REVISION,
+        configuration_name: env.K_CONFIGURATION,
+        location: lastSegment(await lookup('instance/region')),
+      }),
+    };
+  }
+
+  if (env.GAE_SERVICE) {
+    return {
+      type: 'gae_app',
+      labels: compactLabels({
+        project_id: resolvedProjectId,
+        module_id: env.GAE_SERVICE,
+        version_id: env.GAE_VERSION,
+        zone: lastSegment(await lookup('instance/zone')),
+      }),
+    };
+  }
+
+  if (env.KUBERNETES_SERVICE_HOST) {
+    return {
+      type: 'k8s_container',
+      labels: compactLabels({
+        project_id: resolvedProjectId,
+        cluster_name: await lookup('instance/attributes/cluster-name'),
+        location: await lookup('instance/attributes/cluster-location'),
+        namespace_name: await getK8sNamespace(),
+        pod_name: env.HOSTNAME,
+        container_name: env.CONTAINER_NAME,
+      }),
+    };
+  }
+
+  const instanceId = await lookup('instance/id');
+  if (instanceId) {
+    return {
+      type: 'gce_instance',
+      labels: compactLabels({
+        project_id: resolvedProjectId,
+        instance_id: instanceId,
+        zone: lastSegment(await lookup('instance/zone')),
+      }),
+    };
+  }
+
+  return {
+    type: 'global',
+    labels: compactLabels({ project_id: resolvedProjectId }),
+  };
+}
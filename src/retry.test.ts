@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getBackoffDelay, isRetryableError } from './retry.js';
+
+test('retries transient gRPC failures by code and status name', () => {
+  for (const code of [4, 8, 14, 'DEADLINE_EXCEEDED', 'RESOURCE_EXHAUSTED', 'UNAVAILABLE']) {
+    assert.equal(isRetryableError(Object.assign(new Error('failed'), { code })), true, String(code));
+  }
+});
+
+test('does not retry other failures', () => {
+  for (const code of [3, 7, 16, 'PERMISSION_DENIED', 'toString', 'constructor', '__proto__', undefined]) {
+    assert.equal(isRetryableError(Object.assign(new Error('failed'), { code })), false, String(code));
+  }
+  assert.equal(isRetryableError(null), false);
+  assert.equal(isRetryableError('UNAVAILABLE'), false);
+});
+
+test('backs off exponentially up to the maximum delay', () => {
+  const options = { initialDelayMs: 100, maxDelayMs: 1000, multiplier: 3 };
+  for (const [failures, base] of [
+    [1, 100],
+    [2, 300],
+    [3, 900],
+    [4, 1000],
+  ]) {
+    const delay = getBackoffDelay(failures, options);
+    assert.ok(delay >= base / 2 && delay <= base, `${failures}: ${delay}`);
+  }
+});
@@ -0,0 +1,62 @@
+/**
+ * Retry classification and backoff for Cloud Logging API writes
+ */
+
+import type { RetryOptions } from './types.js';
+
+/**
+ * gRPC status codes that indicate a transient failure
+ */
+export const RETRYABLE_STATUS_CODES = {
+  DEADLINE_EXCEEDED: 4,
+  RESOURCE_EXHAUSTED: 8,
+  UNAVAILABLE: 14,
+} as const;
+
+const DEFAULT_INITIAL_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 30000;
+const DEFAULT_MULTIPLIER = 2;
+
+/**
+ * Determine whether a failed write may succeed if retried.
+ * Errors from google-gax carry the gRPC status either as a numeric
+ * code or, for some transports, as the status name.
+ *
+ * @param err The error thrown by the write call
+ * @returns True for UNAVAILABLE, DEADLINE_EXCEEDED and RESOURCE_EXHAUSTED
+ */
+export function isRetryableError(err: unknown): boolean {
+  const code = (err as { code?: unknown } | null)?.code;
+
+  if (typeof code === 'number') {
+    return (Object.values(RETRYABLE_STATUS_CODES) as number[]).includes(code);
+  }
+
+  if (typeof code === 'string') {
+    return Object.hasOwn(RETRYABLE_STATUS_CODES, code);
+  }
+
+  return false;
+}
+
+/**
+ * Compute the delay before the next retry using exponential backoff
+ * with jitter. Half of the delay is fixed and half is random, so
+ * concurrent writers do not retry in lockstep.
+ *
+ * @param failures Number of consecutive failures so far (1 for the first retry)
+ * @param options Retry options
+ * @returns Delay in milliseconds
+ */
+export function getBackoffDelay(failures: number, options: RetryOptions = {}): number {
+  const initialDelayMs = options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const multiplier = options.multiplier ?? DEFAULT_MULTIPLIER;
+
+  const base = Math.min(
+    maxDelayMs,
+    initialDelayMs * Math.pow(multiplier, Math.max(0, failures - 1))
+  );
+
+  return base / 2 + Math.random() * (base / 2);
+}
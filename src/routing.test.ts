@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LoggingCommon } from './common.js';
+import { createRouter } from './routing.js';
+import { MemorySink } from './testing/memory-sink.js';
+
+test('selects the first route whose conditions all match', () => {
+  const selectRoute = createRouter([
+    { logName: 'audit', match: { audit: true } },
+    { logName: 'errors', level: 'error' },
+    { logName: 'jobs', level: 30, match: { component: ['worker', 'cron'] } },
+    { logName: 'slow', filter: (logObject) => Number(logObject.durationMs) > 1000 },
+  ]);
+  const route = (logObject: Record<string, unknown>) =>
+    selectRoute({ level: 30, time: 0, ...logObject })?.logName;
+
+  assert.equal(route({ audit: true, level: 50 }), 'audit');
+  assert.equal(route({ level: 50, component: 'worker' }), 'errors');
+  assert.equal(route({ component: 'cron' }), 'jobs');
+  assert.equal(route({ level: 20, component: 'cron' }), undefined);
+  assert.equal(route({ component: 'web', durationMs: 1500 }), 'slow');
+  assert.equal(route({ component: 'web', durationMs: 10 }), undefined);
+});
+
+test('resolves custom level names', () => {
+  const selectRoute = createRouter([{ logName: 'notices', level: 'notice' }], { notice: 35 });
+  assert.equal(selectRoute({ level: 35, time: 0 })?.logName, 'notices');
+  assert.equal(selectRoute({ level: 30, time: 0 }), undefined);
+});
+
+test('rejects routes without a log name or with an unknown level', () => {
+  assert.throws(() => createRouter([{ logName: '' }]), /every route needs a logName/);
+  assert.throws(() => createRouter([{ logName: 'x', level: 'notice' }]), /unknown level "notice"/);
+});
+
+test('writes routed entries to their log with their labels and resource', async () => {
+  const sink = new MemorySink();
+  const logging = new LoggingCommon({
+    projectId: 'test',
+    logName: 'app',
+    resource: { type: 'global' },
+    labels: { env: 'test' },
+    writer: sink,
+    routes: [
+      {
+        logName: 'audit',
+        match: { audit: true },
+        labels: { stream: 'audit' },
+        resource: { type: 'cloud_run_job', labels: { job_name: 'export' } },
+      },
+    ],
+  });
+
+  await logging.writeLog({ level: 30, time: Date.now(), msg: 'exported', audit: true });
+  await logging.writeLog({ level: 30, time: Date.now(), msg: 'started' });
+  await logging.flush();
+
+  // Each log has a batcher of its own, so the logs are flushed in any order
+  const byLog = Object.fromEntries(
+    sink.entries.map(({ logName, labels, resource }) => [logName, { labels, resource }])
+  );
+  assert.deepEqual(byLog, {
+    audit: {
+      labels: { env: 'test', stream: 'audit' },
+      resource: { type: 'cloud_run_job', labels: { job_name: 'export' } },
+    },
+    app: { labels: { env: 'test' }, resource: { type: 'global' } },
+  });
+  await logging.shutdown();
+});
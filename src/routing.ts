@@ -0,0 +1,74 @@
+/**
+ * Routing of entries to different log names
+ */
+
+import { type LogRoute, type PinoLogObject, PINO_LEVELS } from './types.js';
+
+/**
+ * A route with its minimum level resolved to a number
+ */
+interface CompiledRoute {
+  route: LogRoute;
+  minLevel?: number;
+}
+
+/**
+ * Check whether a log object field has one of the expected values
+ */
+function matchesField(value: unknown, expected: unknown): boolean {
+  return Array.isArray(expected) ? expected.includes(value) : value === expected;
+}
+
+/**
+ * Create a function selecting the route of a log object. Routes are
+ * evaluated in order and the first route whose conditions all match wins.
+ *
+ * @param routes - The routing rules
+ * @param customLevels - Custom level values, so routes can use their names
+ * @returns Function returning the matching route, or undefined for the default log
+ */
+export function createRouter(
+  routes: LogRoute[],
+  customLevels?: Record<string, number>
+): (logObject: PinoLogObject) => LogRoute | undefined {
+  const levelValues: Record<string, number> = { ...PINO_LEVELS, ...customLevels };
+
+  const compiled: CompiledRoute[] = routes.map((route) => {
+    if (!route.logName) {
+      throw new Error('pino-cloud-logging: every route needs a logName');
+    }
+
+    let minLevel: number | undefined;
+    if (typeof route.level === 'number') {
+      minLevel = route.level;
+    } else if (route.level !== undefined) {
+      minLevel = levelValues[route.level];
+      if (minLevel === undefined) {
+        throw new Error(`pino-cloud-logging: unknown level "${route.level}" in routes`);
+      }
+    }
+
+    return { route, minLevel };
+  });
+
+  return function selectRoute(logObject: PinoLogObject): LogRoute | undefined {
+    for (const { route, minLevel } of compiled) {
+      if (minLevel !== undefined && logObject.level < minLevel) {
+        continue;
+      }
+      if (
+        route.match &&
+        !Object.entries(route.match).every(([key, expected]) =>
+          matchesField(logObject[key], expected)
+        )
+      ) {
+        continue;
+      }
+      if (route.filter && !route.filter(logObject)) {
+        continue;
+      }
+      return route;
+    }
+    return undefined;
+  };
+}
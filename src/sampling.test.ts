@@ -0,0 +1,133 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LoggingCommon } from './common.js';
+import { LogSampler } from './sampling.js';
+import { MemorySink } from './testing/memory-sink.js';
+
+const TRACE = 'projects/test/traces/4bf92f3577b34da6a3ce929d0e0e4736';
+
+function logObject(msg: string, level = 30) {
+  return { level, time: Date.now(), msg };
+}
+
+test('samples the entries of a trace together', () => {
+  const sampler = new LogSampler({ rates: { DEBUG: 0.5 } });
+  const traces = Array.from({ length: 200 }, (_, i) => `projects/test/traces/${i}`);
+
+  const decisions = traces.map((trace) => [
+    sampler.shouldWrite('DEBUG', logObject('first', 20), { trace }),
+    sampler.shouldWrite('DEBUG', logObject('second', 20), { trace }),
+  ]);
+  assert.ok(decisions.every(([first, second]) => first === second));
+  const kept = decisions.filter(([first]) => first).length;
+  assert.ok(kept > 50 && kept < 150, `kept ${kept} of 200`);
+});
+
+test('keeps sampled traces and errors unless configured otherwise', () => {
+  const sampler = new LogSampler({ rates: { INFO: 0, ERROR: 0 } });
+  assert.equal(sampler.shouldWrite('INFO', logObject('dropped'), { trace: TRACE }), false);
+  assert.equal(sampler.shouldWrite('INFO', logObject('sampled'), { trace: TRACE, traceSampled: true }), true);
+  assert.equal(sampler.shouldWrite('ERROR', logObject('failed', 50), {}), true);
+
+  const strict = new LogSampler({
+    rates: { INFO: 0, ERROR: 0 },
+    keepSampledTraces: false,
+    exemptErrors: false,
+  });
+  assert.equal(strict.shouldWrite('INFO', logObject('sampled'), { trace: TRACE, traceSampled: true }), false);
+  assert.equal(strict.shouldWrite('ERROR', logObject('failed', 50), {}), false);
+});
+
+test('rate limits severities and messages', () => {
+  const sampler = new LogSampler({
+    rateLimits: { INFO: { limit: 3, intervalMs: 60000 } },
+    messageRateLimit: { limit: 1, intervalMs: 60000 },
+  });
+  const written = ['a', 'a', 'b', 'c', 'd'].filter((msg) => sampler.shouldWrite('INFO', logObject(msg), {}));
+  assert.deepEqual(written, ['a', 'b']);
+  assert.equal(sampler.shouldWrite('WARNING', logObject('w'), {}), true);
+  assert.equal(sampler.shouldWrite('WARNING', logObject('w'), {}), false);
+});
+
+test('summarizes the suppressed entries once', () => {
+  const sampler = new LogSampler({ rates: { DEBUG: 0 }, messageRateLimit: { limit: 1, intervalMs: 60000 } });
+  sampler.shouldWrite('DEBUG', logObject('noisy', 20), {});
+  sampler.shouldWrite('DEBUG', logObject('noisy', 20), {});
+  sampler.shouldWrite('INFO', logObject('repeated'), {});
+  sampler.shouldWrite('INFO', logObject('repeated'), {});
+
+  const { sinceMs, ...summary } = sampler.takeSummary()!;
+  assert.ok(sinceMs >= 0);
+  assert.deepEqual(summary, {
+    total: 3,
+    sampled: 2,
+    rateLimited: 1,
+    bySeverity: { DEBUG: 2, INFO: 1 },
+    topMessages: [
+      { message: 'noisy', count: 2 },
+      { message: 'repeated', count: 1 },
+    ],
+  });
+  assert.equal(sampler.takeSummary(), undefined);
+});
+
+test('rejects invalid rates and limits', () => {
+  assert.throws(() => new LogSampler({ rates: { INFO: 2 } }), /must be between 0 and 1/);
+  assert.throws(() => new LogSampler({ rateLimits: { INFO: { limit: 0 } } }), /positive limit/);
+  assert.throws(() => new LogSampler({ messageRateLimit: { limit: 1, intervalMs: -1 } }), /positive limit/);
+});
+
+test('rate limits messages by their messageKey', async () => {
+  const sink = new MemorySink();
+  const logging = new LoggingCommon({
+    projectId: 'test',
+    resource: { type: 'global' },
+    writer: sink,
+    sampling: { messageRateLimit: { limit: 1, intervalMs: 60000 }, messageKey: 'msgTemplate' },
+  });
+
+  for (let attempt = 1; attempt <= 3; attempt++) {
+    await logging.writeLog({
+      level: 30,
+      time: Date.now(),
+      msg: `retry ${attempt} failed`,
+      msgTemplate: 'retry %d failed',
+    });
+  }
+  await logging.writeLog({ level: 30, time: Date.now(), msg: 'other' });
+  await logging.flush();
+
+  assert.deepEqual(sink.entries.map((entry) => entry.jsonPayload?.message), ['retry 1 failed', 'other']);
+  await logging.shutdown();
+});
+
+test('writes a summary entry of the suppressed entries on shutdown', async () => {
+  const sink = new MemorySink();
+  const logging = new LoggingCommon({
+    projectId: 'test',
+    resource: { type: 'global' },
+    labels: { env: 'test' },
+    writer: sink,
+    sampling: { rates: { DEBUG: 0 } },
+  });
+
+  await logging.writeLog({ level: 20, time: Date.now(), msg: 'hidden' });
+  await logging.writeLog({ level: 30, time: Date.now(), msg: 'shown' });
+  await logging.shutdown();
+
+  assert.deepEqual(sink.entries.map((entry) => entry.jsonPayload?.message), [
+    'shown',
+    'Suppressed 1 log entries in the last 0s',
+  ]);
+  const summary = sink.entries[1];
+  assert.equal(summary.severity, 'NOTICE');
+  assert.deepEqual(summary.labels, { env: 'test', sampling_summary: 'true' });
+  assert.deepEqual(summary.jsonPayload?.suppressed, {
+    total: 1,
+    sampled: 1,
+    rateLimited: 0,
+    bySeverity: { DEBUG: 1 },
+    topMessages: [{ message: 'hidden', count: 1 }],
+  });
+  assert.equal(logging.getMetrics().entriesSuppressed, 1);
+});
@@ -0,0 +1,258 @@
+/**
+ * Client-side sampling and rate limiting of entries
+ */
+
+import type {
+  CloudLoggingSeverity,
+  PinoLogObject,
+  RateLimit,
+  SamplingOptions,
+  TraceContext,
+} from './types.js';
+import { isErrorSeverity } from './severity.js';
+
+const DEFAULT_INTERVAL_MS = 1000;
+
+/**
+ * Maximum number of messages with their own rate limit bucket. The least
+ * recently used message is evicted beyond it.
+ */
+const MAX_MESSAGE_BUCKETS = 1000;
+
+/**
+ * Maximum number of messages listed in a summary
+ */
+const MAX_SUMMARY_MESSAGES = 10;
+
+/**
+ * Why an entry was suppressed
+ */
+type SuppressionReason = 'sampled' | 'rateLimited';
+
+/**
+ * Counts of entries suppressed since the previous summary
+ */
+export interface SamplingSummary {
+  total: number;
+  sampled: number;
+  rateLimited: number;
+  bySeverity: Partial<Record<CloudLoggingSeverity, number>>;
+  topMessages: Array<{ message: string; count: number }>;
+  sinceMs: number;
+}
+
+/**
+ * A token bucket refilled continuously at limit / intervalMs tokens per millisecond
+ */
+class TokenBucket {
+  private capacity: number;
+  private refillPerMs: number;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(limit: RateLimit, now: number) {
+    this.capacity = limit.burst ?? limit.limit;
+    this.refillPerMs = limit.limit / (limit.intervalMs ?? DEFAULT_INTERVAL_MS);
+    this.tokens = this.capacity;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Take a token if one is available
+   */
+  take(now: number): boolean {
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens--;
+    return true;
+  }
+}
+
+/**
+ * Check a rate limit's values
+ */
+function validateRateLimit(limit: RateLimit, name: string): void {
+  if (!(limit.limit > 0) || (limit.intervalMs !== undefined && !(limit.intervalMs > 0))) {
+    throw new Error(`pino-cloud-logging: ${name} needs a positive limit and interval`);
+  }
+}
+
+/**
+ * Map a trace ID to a stable number in [0, 1), so that every entry of
+ * a trace gets the same sampling decision (32-bit FNV-1a)
+ */
+function traceFraction(trace: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < trace.length; i++) {
+    hash ^= trace.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Decides which entries are written according to the sampling options,
+ * counting the suppressed ones for summary entries.
+ */
+export class LogSampler {
+  private rates: Partial<Record<CloudLoggingSeverity, number>>;
+  private rateLimits: Partial<Record<CloudLoggingSeverity, RateLimit>>;
+  private messageRateLimit?: RateLimit;
+  private messageKey?: string;
+  private keepSampledTraces: boolean;
+  private exemptErrors: boolean;
+  private severityBuckets = new Map<CloudLoggingSeverity, TokenBucket>();
+  private messageBuckets = new Map<string, TokenBucket>();
+  private counts = { sampled: 0, rateLimited: 0 };
+  private bySeverity: Partial<Record<CloudLoggingSeverity, number>> = {};
+  private byMessage = new Map<string, number>();
+  private since = Date.now();
+
+  constructor(options: SamplingOptions) {
+    this.rates = options.rates ?? {};
+    this.rateLimits = options.rateLimits ?? {};
+    this.messageRateLimit = options.messageRateLimit;
+    this.messageKey = options.messageKey;
+    this.keepSampledTraces = options.keepSampledTraces ?? true;
+    this.exemptErrors = options.exemptErrors ?? true;
+
+    for (const [severity, rate] of Object.entries(this.rates)) {
+      if (!(rate >= 0 && rate <= 1)) {
+        throw new Error(`pino-cloud-logging: sampling rate for ${severity} must be between 0 and 1`);
+      }
+    }
+    for (const [severity, limit] of Object.entries(this.rateLimits)) {
+      validateRateLimit(limit, `rate limit for ${severity}`);
+    }
+    if (this.messageRateLimit) {
+      validateRateLimit(this.messageRateLimit, 'messageRateLimit');
+    }
+  }
+
+  /**
+   * Decide whether an entry is written. Suppressed entries are counted.
+   *
+   * @param severity - Severity of the entry
+   * @param logObject - The log object
+   * @param trace - Trace context of the entry
+   * @returns True if the entry should be written
+   */
+  shouldWrite(severity: CloudLoggingSeverity, logObject: PinoLogObject, trace: TraceContext): boolean {
+    const message = this.getMessage(logObject);
+    if (this.exemptErrors && isErrorSeverity(severity)) {
+      return true;
+    }
+    if (this.keepSampledTraces && trace.traceSampled === true) {
+      return true;
+    }
+
+    const rate = this.rates[severity];
+    if (rate !== undefined && rate < 1) {
+      const fraction = trace.trace ? traceFraction(trace.trace) : Math.random();
+      if (fraction >= rate) {
+        this.suppress('sampled', severity, message);
+        return false;
+      }
+    }
+
+    const now = Date.now();
+    const limit = this.rateLimits[severity];
+    if (limit) {
+      let bucket = this.severityBuckets.get(severity);
+      if (!bucket) {
+        bucket = new TokenBucket(limit, now);
+        this.severityBuckets.set(severity, bucket);
+      }
+      if (!bucket.take(now)) {
+        this.suppress('rateLimited', severity, message);
+        return false;
+      }
+    }
+
+    if (this.messageRateLimit && message !== undefined) {
+      if (!this.messageBucket(message, now).take(now)) {
+        this.suppress('rateLimited', severity, message);
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Return the counts of entries suppressed since the previous summary
+   * and reset them
+   *
+   * @returns The summary, or undefined if nothing was suppressed
+   */
+  takeSummary(): SamplingSummary | undefined {
+    const total = this.counts.sampled + this.counts.rateLimited;
+    if (total === 0) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    const summary: SamplingSummary = {
+      total,
+      sampled: this.counts.sampled,
+      rateLimited: this.counts.rateLimited,
+      bySeverity: this.bySeverity,
+      topMessages: [...this.byMessage]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_SUMMARY_MESSAGES)
+        .map(([message, count]) => ({ message, count })),
+      sinceMs: now - this.since,
+    };
+
+    this.counts = { sampled: 0, rateLimited: 0 };
+    this.bySeverity = {};
+    this.byMessage.clear();
+    this.since = now;
+    return summary;
+  }
+
+  /**
+   * Get the message an entry is rate limited and summarized by: the
+   * messageKey field if the log object has it, otherwise msg
+   */
+  private getMessage(logObject: PinoLogObject): string | undefined {
+    const value = this.messageKey === undefined ? undefined : logObject[this.messageKey];
+    if (value !== undefined && value !== null) {
+      return String(value);
+    }
+    return logObject.msg;
+  }
+
+  /**
+   * Get the bucket of a message, keeping the most recently used messages
+   */
+  private messageBucket(message: string, now: number): TokenBucket {
+    let bucket = this.messageBuckets.get(message);
+    if (bucket) {
+      // Move the message to the end of the insertion order
+      this.messageBuckets.delete(message);
+    } else {
+      bucket = new TokenBucket(this.messageRateLimit as RateLimit, now);
+      if (this.messageBuckets.size >= MAX_MESSAGE_BUCKETS) {
+        const oldest = this.messageBuckets.keys().next().value as string;
+        this.messageBuckets.delete(oldest);
+      }
+    }
+    this.messageBuckets.set(message, bucket);
+    return bucket;
+  }
+
+  /**
+   * Count a suppressed entry
+   */
+  private suppress(reason: SuppressionReason, severity: CloudLoggingSeverity, message?: string): void {
+    this.counts[reason]++;
+    this.bySeverity[severity] = (this.bySeverity[severity] ?? 0) + 1;
+    if (message !== undefined && (this.byMessage.has(message) || this.byMessage.size < MAX_MESSAGE_BUCKETS)) {
+      this.byMessage.set(message, (this.byMessage.get(message) ?? 0) + 1);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSeverityMapper, isErrorSeverity } from './severity.js';
+
+test('maps the default Pino levels', () => {
+  const mapLevel = createSeverityMapper();
+  assert.equal(mapLevel(10), 'DEBUG');
+  assert.equal(mapLevel(20), 'DEBUG');
+  assert.equal(mapLevel(30), 'INFO');
+  assert.equal(mapLevel(40), 'WARNING');
+  assert.equal(mapLevel(50), 'ERROR');
+  assert.equal(mapLevel(60), 'CRITICAL');
+});
+
+test('maps unmapped levels to the closest lower level by default', () => {
+  const mapLevel = createSeverityMapper();
+  assert.equal(mapLevel(35), 'INFO');
+  assert.equal(mapLevel(70), 'CRITICAL');
+  assert.equal(mapLevel(5), 'DEBUG');
+});
+
+test('maps unmapped levels with the higher and nearest fallbacks', () => {
+  const higher = createSeverityMapper({ severityFallback: 'higher' });
+  assert.equal(higher(35), 'WARNING');
+  assert.equal(higher(70), 'CRITICAL');
+
+  const nearest = createSeverityMapper({ severityFallback: 'nearest' });
+  assert.equal(nearest(33), 'INFO');
+  assert.equal(nearest(37), 'WARNING');
+  // Ties prefer the lower level
+  assert.equal(nearest(35), 'INFO');
+});
+
+test('maps unmapped levels to a fixed severity fallback', () => {
+  const mapLevel = createSeverityMapper({ severityFallback: 'NOTICE' });
+  assert.equal(mapLevel(35), 'NOTICE');
+  assert.equal(mapLevel(30), 'INFO');
+});
+
+test('maps custom levels by name and number', () => {
+  const mapLevel = createSeverityMapper({
+    customLevels: { audit: 35 },
+    severityMap: { audit: 'NOTICE', 70: 'ALERT' },
+  });
+  assert.equal(mapLevel(35), 'NOTICE');
+  assert.equal(mapLevel(70), 'ALERT');
+  assert.equal(mapLevel(36), 'NOTICE');
+});
+
+test('rejects unknown severities and levels in the severity map', () => {
+  assert.throws(
+    () => createSeverityMapper({ severityMap: { info: 'LOUD' as 'INFO' } }),
+    /unknown severity "LOUD"/
+  );
+  assert.throws(() => createSeverityMapper({ severityMap: { audit: 'NOTICE' } }), /unknown level "audit"/);
+});
+
+test('detects error severities', () => {
+  assert.equal(isErrorSeverity('WARNING'), false);
+  assert.equal(isErrorSeverity('ERROR'), true);
+  assert.equal(isErrorSeverity('EMERGENCY'), true);
+});
@@ -0,0 +1,118 @@
+/**
+ * Mapping from Pino levels to Cloud Logging severities
+ */
+
+import {
+  type CloudLoggingSeverity,
+  type SeverityFallback,
+  CLOUD_LOGGING_SEVERITY,
+  PINO_LEVELS,
+  PINO_TO_CLOUD_SEVERITY,
+} from './types.js';
+
+/**
+ * Cloud Logging severities ordered from least to most severe
+ */
+const SEVERITY_ORDER: CloudLoggingSeverity[] = [
+  'DEFAULT',
+  'DEBUG',
+  'INFO',
+  'NOTICE',
+  'WARNING',
+  'ERROR',
+  'CRITICAL',
+  'ALERT',
+  'EMERGENCY',
+];
+
+/**
+ * Check whether a severity is ERROR or more severe
+ */
+export function isErrorSeverity(severity: CloudLoggingSeverity): boolean {
+  return SEVERITY_ORDER.indexOf(severity) >= SEVERITY_ORDER.indexOf('ERROR');
+}
+
+/**
+ * Options for creating a severity mapper
+ */
+export interface SeverityMapperOptions {
+  severityMap?: Record<string, CloudLoggingSeverity>;
+  severityFallback?: SeverityFallback;
+  customLevels?: Record<string, number>;
+}
+
+/**
+ * Create a function mapping Pino numeric levels to Cloud Logging severities.
+ *
+ * The severity map extends the default mapping and may use numeric levels
+ * or level names, including custom levels. Levels without an exact match
+ * are resolved with the fallback strategy:
+ * - 'lower': severity of the closest mapped level below (default)
+ * - 'higher': severity of the closest mapped level above
+ * - 'nearest': severity of the closest mapped level, preferring the lower one on ties
+ * - any Cloud Logging severity: that severity
+ *
+ * @param options - Severity map, fallback strategy and custom level values
+ * @returns The mapping function
+ */
+export function createSeverityMapper(
+  options: SeverityMapperOptions = {}
+): (level: number) => CloudLoggingSeverity {
+  const levelValues: Record<string, number> = {
+    ...PINO_LEVELS,
+    ...options.customLevels,
+  };
+  const fallback = options.severityFallback ?? 'lower';
+
+  const mapping = new Map<number, CloudLoggingSeverity>();
+  for (const [level, severity] of Object.entries(PINO_TO_CLOUD_SEVERITY)) {
+    mapping.set(Number(level), severity);
+  }
+
+  for (const [key, severity] of Object.entries(options.severityMap ?? {})) {
+    if (!(severity in CLOUD_LOGGING_SEVERITY)) {
+      throw new Error(`pino-cloud-logging: unknown severity "${severity}" for level "${key}"`);
+    }
+    const level = /^\d+$/.test(key) ? Number(key) : levelValues[key];
+    if (level === undefined) {
+      throw new Error(`pino-cloud-logging: unknown level "${key}" in severityMap`);
+    }
+    mapping.set(level, severity);
+  }
+
+  const mappedLevels = [...mapping.keys()].sort((a, b) => a - b);
+  const cache = new Map(mapping);
+
+  function resolve(level: number): CloudLoggingSeverity {
+    if (fallback in CLOUD_LOGGING_SEVERITY) {
+      return fallback as CloudLoggingSeverity;
+    }
+
+    const lower = mappedLevels.filter((value) => value < level).pop();
+    const higher = mappedLevels.find((value) => value > level);
+
+    let chosen: number | undefined;
+    if (fallback === 'higher') {
+      chosen = higher ?? lower;
+    } else if (fallback === 'nearest') {
+      if (lower === undefined || higher === undefined) {
+        chosen = lower ?? higher;
+      } else {
+        chosen = level - lower <= higher - level ? lower : higher;
+      }
+    } else {
+      chosen = lower ?? higher;
+    }
+
+    return chosen === undefined ? 'DEFAULT' : mapping.get(chosen)!;
+  }
+
+  return function mapLevel(level: number): CloudLoggingSeverity {
+    let severity = cache.get(level);
+    if (severity === undefined) {
+      severity = resolve(level);
+      cache.set(level, severity);
+    }
+    return severity;
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Source location capture for log calls
+ */
+
+import { readFileSync } from 'node:fs';
+import { SourceMap, type SourceMapping } from 'node:module';
+import { dirname, isAbsolute, relative, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  type CallerMixinOptions,
+  type SourceLocation,
+  LOGGING_SOURCE_LOCATION_KEY,
+} from './types.js';
+
+/**
+ * A frame of a V8 stack trace, e.g. "    at fn (/app/index.js:10:5)"
+ */
+const STACK_FRAME = /^\s*at (?:(?:async )?(.+?) \()?(.+):(\d+):(\d+)\)?$/;
+
+/**
+ * Frames inside Pino, between the mixin and the log call
+ */
+const PINO_FRAME = /[\\/]node_modules[\\/]pino[\\/]/;
+
+interface StackFrame {
+  functionName?: string;
+  file: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Source maps by compiled file; null when the file has none
+ */
+const sourceMaps = new Map<string, SourceMap | null>();
+
+/**
+ * Parse the frames of a stack trace
+ */
+function parseFrames(stack: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+  for (const line of stack.split('\n')) {
+    const match = STACK_FRAME.exec(line);
+    if (match) {
+      frames.push({
+        functionName: match[1],
+        file: match[2],
+        line: Number(match[3]),
+        column: Number(match[4]),
+      });
+    }
+  }
+  return frames;
+}
+
+/**
+ * Convert a file URL to a path, leaving paths untouched
+ */
+function toPath(file: string): string {
+  return file.startsWith('file://') ? fileURLToPath(file) : file;
+}
+
+/**
+ * Load the source map referenced by a compiled file's sourceMappingURL comment
+ */
+function loadSourceMap(file: string): SourceMap | null {
+  let map = sourceMaps.get(file);
+  if (map !== undefined) {
+    return map;
+  }
+
+  map = null;
+  try {
+    const code = readFileSync(file, 'utf8');
+    const url = /\/\/# sourceMappingURL=(\S+)\s*$/.exec(code)?.[1];
+    if (url && !url.startsWith('data:')) {
+      const payload = JSON.parse(readFileSync(resolve(dirname(file), url), 'utf8'));
+      map = new SourceMap(payload);
+    }
+  } catch {
+    // Files without a readable source map are reported as they are
+  }
+
+  sourceMaps.set(file, map);
+  return map;
+}
+
+/**
+ * Map a frame in a compiled file to its original source
+ */
+function applySourceMap(frame: StackFrame): StackFrame {
+  const map = loadSourceMap(frame.file);
+  const entry = map?.findEntry(frame.line - 1, frame.column - 1) as SourceMapping | undefined;
+  if (!entry?.originalSource) {
+    return frame;
+  }
+
+  const source = toPath(entry.originalSource);
+  return {
+    functionName: frame.functionName,
+    file: isAbsolute(source) ? source : resolve(dirname(frame.file), source),
+    line: entry.originalLine + 1,
+    column: entry.originalColumn + 1,
+  };
+}
+
+/**
+ * Create a Pino mixin adding the source location of each log call as
+ * logging.googleapis.com/sourceLocation. Enable useSourceLocation in the
+ * transport options to map it to the entry's sourceLocation.
+ *
+ * Capturing the location requires a stack trace for every log call,
+ * so enable it where the cost is acceptable.
+ *
+ * @param options - Stack depth, source map and path options
+ * @returns The mixin function
+ *
+ * @example
+ * ```typescript
+ * import { createCallerMixin } from 'pino-cloud-logging';
+ *
+ * const logger = pino({
+ *   mixin: createCallerMixin({ sourceMaps: true }),
+ *   transport: {
+ *     target: 'pino-cloud-logging',
+ *     options: { projectId: 'my-project', useSourceLocation: true },
+ *   },
+ * });
+ * ```
+ */
+export function createCallerMixin(
+  options: CallerMixinOptions = {}
+): () => Record<string, unknown> {
+  const stackDepth = options.stackDepth ?? 0;
+  const basePath = options.basePath ?? process.cwd();
+
+  return function callerMixin(): Record<string, unknown> {
+    const holder: { stack?: string } = {};
+    const limit = Error.stackTraceLimit;
+    Error.stackTraceLimit = 20 + stackDepth;
+    Error.captureStackTrace(holder, callerMixin);
+    Error.stackTraceLimit = limit;
+
+    // The caller is the first frame after Pino's own frames, which also
+    // skips mixins composing this one
+    const frames = parseFrames(holder.stack ?? '');
+    let first = 0;
+    frames.forEach((frame, index) => {
+      if (PINO_FRAME.test(frame.file)) {
+        first = index + 1;
+      }
+    });
+    let frame = frames[first + stackDepth];
+    if (!frame) {
+      return {};
+    }
+
+    if (options.sourceMaps) {
+      frame = applySourceMap({ ...frame, file: toPath(frame.file) });
+    }
+
+    const file = toPath(frame.file);
+    const location: SourceLocation = {
+      file: isAbsolute(file) && file.startsWith(basePath) ? relative(basePath, file) : file,
+      line: frame.line,
+      function: frame.functionName,
+    };
+
+    return { [LOGGING_SOURCE_LOCATION_KEY]: location };
+  };
+}
@@ -0,0 +1,234 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { appendFile, mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DiskSpool, type SpooledEntry } from './spool.js';
+
+const unavailable = () => Object.assign(new Error('unavailable'), { code: 14 });
+
+function entries(logName: string, ...ids: number[]): SpooledEntry[] {
+  return ids.map((id) => ({ logName, metadata: { insertId: String(id) }, data: { id } }));
+}
+
+/**
+ * Poll until a condition holds; the spool's drain timer doesn't keep the
+ * process alive on its own
+ */
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('condition not met in time');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+async function withDirectory(fn: (directory: string) => Promise<void>): Promise<void> {
+  const directory = await mkdtemp(join(tmpdir(), 'pino-cloud-logging-spool-'));
+  try {
+    await fn(directory);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+test('replays spooled entries in order once writes succeed', () =>
+  withDirectory(async (directory) => {
+    let available = false;
+    const replayed: unknown[] = [];
+    const spool = new DiskSpool({ directory, drainIntervalMs: 10 }, async (logName, batch) => {
+      if (!available) {
+        throw unavailable();
+      }
+      replayed.push(...batch.map((entry) => [logName, entry.metadata.insertId]));
+    });
+
+    await spool.append(entries('a', 1, 2));
+    await spool.append(entries('b', 3));
+    assert.equal(spool.active, true);
+    assert.equal(spool.getStats().spoolQueued, 3);
+
+    available = true;
+    await waitFor(() => !spool.active);
+    assert.deepEqual(replayed, [
+      ['a', '1'],
+      ['a', '2'],
+      ['b', '3'],
+    ]);
+    assert.equal(spool.getStats().spooled, 3);
+    await spool.close();
+  }));
+
+test('continues from the checkpoint after a restart', () =>
+  withDirectory(async (directory) => {
+    // The first process replays one batch, then the API goes down
+    let calls = 0;
+    const first = new DiskSpool(
+      { directory, drainIntervalMs: 60000 },
+      async () => {
+        if (calls++ > 0) {
+          throw unavailable();
+        }
+      },
+      2
+    );
+    await first.append(entries('log', 1, 2, 3, 4, 5));
+    await waitFor(() => calls === 2);
+    await first.close();
+
+    assert.deepEqual(JSON.parse(await readFile(join(directory, 'checkpoint.json'), 'utf8')), {
+      segment: 0,
+      offset: Buffer.byteLength(entries('log', 1, 2).map((e) => JSON.stringify(e) + '\n').join('')),
+    });
+
+    const replayed: unknown[] = [];
+    const second = new DiskSpool({ directory }, async (_logName, batch) => {
+      replayed.push(...batch.map((entry) => entry.metadata.insertId));
+    });
+    await waitFor(() => replayed.length === 3 && !second.active);
+    assert.deepEqual(replayed, ['3', '4', '5']);
+    await second.close();
+
+    // Replayed segments are deleted
+    assert.deepEqual((await readdir(directory)).filter((name) => name.endsWith('.ndjson')), []);
+  }));
+
+test('skips a torn line left by a crash', () =>
+  withDirectory(async (directory) => {
+    const first = new DiskSpool({ directory, drainIntervalMs: 60000 }, async () => {
+      throw unavailable();
+    });
+    await first.append(entries('log', 1));
+    await first.close();
+    await appendFile(join(directory, '0000000000.ndjson'), '{"logName":"log","meta');
+
+    const replayed: unknown[] = [];
+    const second = new DiskSpool({ directory }, async (_logName, batch) => {
+      replayed.push(...batch.map((entry) => entry.metadata.insertId));
+    });
+    await second.append(entries('log', 2));
+    await waitFor(() => !second.active);
+    assert.deepEqual(replayed, ['1', '2']);
+    await second.close();
+  }));
+
+test('drops the oldest segments beyond maxBytes', () =>
+  withDirectory(async (directory) => {
+    const spool = new DiskSpool(
+      { directory, maxSegmentBytes: 100, maxBytes: 200, drainIntervalMs: 60000 },
+      async () => {
+        throw unavailable();
+      }
+    );
+    for (let id = 0; id < 10; id++) {
+      await spool.append(entries('log', id));
+    }
+
+    const stats = spool.getStats();
+    assert.ok(stats.droppedSpoolOverflow > 0);
+    assert.equal(stats.spoolQueued + stats.droppedSpoolOverflow, 10);
+    await spool.close();
+  }));
+
+for (const outcome of ['succeeds', 'fails'] as const) {
+  test(`keeps the checkpoint consistent when a blocked replay ${outcome} after its segment was dropped`, () =>
+    withDirectory(async (directory) => {
+      let release!: () => void;
+      const blocked = new Promise<void>((resolve) => (release = resolve));
+      const replayed: string[] = [];
+      let calls = 0;
+      const spool = new DiskSpool(
+        { directory, maxSegmentBytes: 1000, maxBytes: 2500, drainIntervalMs: 10 },
+        async (_logName, batch) => {
+          if (calls++ === 0) {
+            await blocked;
+            if (outcome === 'fails') {
+              throw unavailable();
+            }
+          }
+          replayed.push(...batch.map((entry) => String(entry.metadata.insertId)));
+        }
+      );
+      const padded = (id: number): SpooledEntry => ({
+        logName: 'log',
+        metadata: { insertId: String(id) },
+        data: { id, padding: 'x'.repeat(50) },
+      });
+
+      await spool.append([padded(1), padded(2)]);
+      await waitFor(() => calls === 1);
+      for (let id = 3; id <= 38; id++) {
+        await spool.append([padded(id)]);
+      }
+
+      // The limits dropped the segment of the blocked batch
+      const kept: string[] = [];
+      for (const name of (await readdir(directory)).filter((name) => name.endsWith('.ndjson')).sort()) {
+        for (const line of (await readFile(join(directory, name), 'utf8')).split('\n').filter(Boolean)) {
+          kept.push(String((JSON.parse(line) as SpooledEntry).metadata.insertId));
+        }
+      }
+      assert.equal(kept.includes('1'), false);
+
+      release();
+      await waitFor(() => !spool.active);
+
+      // Every entry is either replayed once, in order, or counted as dropped
+      const sent = outcome === 'succeeds' ? ['1', '2'] : [];
+      assert.deepEqual(replayed, [...sent, ...kept]);
+      assert.equal(spool.getStats().droppedSpoolOverflow, 38 - replayed.length);
+      await spool.close();
+    }));
+}
+
+test('drops batches failing with a non-retryable error', () =>
+  withDirectory(async (directory) => {
+    const errors: Array<[string, number]> = [];
+    const spool = new DiskSpool(
+      { directory },
+      async () => {
+        throw Object.assign(new Error('denied'), { code: 7 });
+      },
+      200,
+      (err, count) => errors.push([err.message, count])
+    );
+    await spool.append(entries('log', 1, 2));
+    await waitFor(() => !spool.active);
+
+    assert.deepEqual(errors, [['denied', 2]]);
+    assert.equal(spool.getStats().droppedNonRetryable, 2);
+    await spool.close();
+  }));
+
+test('stops waiting for a hanging replay at the close deadline', () =>
+  withDirectory(async (directory) => {
+    let calls = 0;
+    const spool = new DiskSpool({ directory }, () => {
+      calls++;
+      return new Promise(() => {});
+    });
+    await spool.append(entries('log', 1));
+    await waitFor(() => calls === 1);
+
+    const start = Date.now();
+    await spool.close(50);
+    assert.ok(Date.now() - start < 1000);
+
+    // The checkpoint has not moved, so the next process replays the entry
+    const replayed: unknown[] = [];
+    const next = new DiskSpool({ directory }, async (_logName, batch) => {
+      replayed.push(...batch.map((entry) => entry.metadata.insertId));
+    });
+    await waitFor(() => replayed.length === 1);
+    assert.deepEqual(replayed, ['1']);
+    await next.close();
+  }));
+
+test('rejects appends after close', () =>
+  withDirectory(async (directory) => {
+    const spool = new DiskSpool({ directory }, async () => {});
+    await spool.close();
+    await assert.rejects(spool.append(entries('log', 1)), /spool is closed/);
+  }));
@@ -0,0 +1,522 @@
+/**
+ * Disk-backed spool buffering entries while the API is unreachable
+ */
+
+import { appendFile, mkdir, open, readdir, readFile, rename, stat, unlink } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Entry } from '@google-cloud/logging';
+import type { LogEntry } from '@google-cloud/logging/build/src/entry.js';
+import type { SpoolOptions, WriteStats } from './types.js';
+import type { BatchErrorHandler } from './batch.js';
+import { isRetryableError } from './retry.js';
+
+const DEFAULT_MAX_SEGMENT_BYTES = 1000000; // 1MB
+const DEFAULT_MAX_BYTES = 100000000; // 100MB
+const DEFAULT_MAX_AGE_MS = 86400000; // 24 hours
+const DEFAULT_DRAIN_INTERVAL_MS = 5000;
+const DEFAULT_DRAIN_BATCH_ENTRIES = 200;
+
+const CHECKPOINT_FILE = 'checkpoint.json';
+const SEGMENT_PATTERN = /^(\d{10})\.ndjson$/;
+const NEWLINE = 0x0a;
+
+/**
+ * An entry as stored in a segment file, one JSON object per line
+ */
+export interface SpooledEntry {
+  logName: string;
+  metadata: LogEntry;
+  data: Entry['data'];
+}
+
+/**
+ * Sends spooled entries of one log in a single API call
+ */
+export type SpoolSender = (logName: string, entries: SpooledEntry[], bytes: number) => Promise<void>;
+
+/**
+ * Counters of the spool, reported as part of the write stats
+ */
+export type SpoolStats = Pick<
+  WriteStats,
+  'spooled' | 'spoolQueued' | 'droppedSpoolOverflow' | 'droppedSpoolExpired' | 'droppedNonRetryable'
+>;
+
+/**
+ * An append-only segment file. Entries before the checkpoint offset
+ * of the head segment have been replayed.
+ */
+interface Segment {
+  seq: number;
+  size: number;
+  entries: number;
+  updatedAt: number;
+}
+
+/**
+ * Position of the first entry not yet replayed
+ */
+interface Checkpoint {
+  segment: number;
+  offset: number;
+}
+
+/**
+ * Entries read from the head segment for one replay, with the position
+ * they were read from
+ */
+interface SpoolBatch {
+  segment: number;
+  offset: number;
+  entries: SpooledEntry[];
+  bytes: number;
+  lines: number;
+
+  /**
+   * Set when the limits dropped the segment while the batch was sent;
+   * its entries count as dropped if the send fails
+   */
+  droppedAs?: 'droppedSpoolOverflow' | 'droppedSpoolExpired';
+}
+
+/**
+ * Count the entries (complete lines) in a buffer
+ */
+function countLines(buffer: Buffer): number {
+  let count = 0;
+  for (let index = buffer.indexOf(NEWLINE); index !== -1; index = buffer.indexOf(NEWLINE, index + 1)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Appends entries to segment files and replays them in order in the
+ * background. The replay position is kept in a checkpoint file, written
+ * atomically after every replayed batch, so a restart continues where
+ * the previous process stopped. A crash between a write and its
+ * checkpoint replays the batch again with the same insertIds, which
+ * Cloud Logging deduplicates.
+ */
+export class DiskSpool {
+  private directory: string;
+  private maxSegmentBytes: number;
+  private maxBytes: number;
+  private maxAgeMs: number;
+  private drainIntervalMs: number;
+  private maxEntries: number;
+  private send: SpoolSender;
+  private onError?: BatchErrorHandler;
+  private segments: Segment[] = [];
+  private checkpoint: Checkpoint = { segment: 0, offset: 0 };
+  private ready: Promise<void>;
+  private opening = true;
+  private lock: Promise<unknown> = Promise.resolve();
+  private timer?: NodeJS.Timeout;
+  private draining?: Promise<void>;
+  private replaying?: SpoolBatch;
+  private closed = false;
+  private stats: Omit<SpoolStats, 'spoolQueued'> = {
+    spooled: 0,
+    droppedSpoolOverflow: 0,
+    droppedSpoolExpired: 0,
+    droppedNonRetryable: 0,
+  };
+
+  constructor(
+    options: SpoolOptions,
+    send: SpoolSender,
+    maxEntries = DEFAULT_DRAIN_BATCH_ENTRIES,
+    onError?: BatchErrorHandler
+  ) {
+    this.directory = options.directory;
+    this.maxSegmentBytes = options.maxSegmentBytes ?? DEFAULT_MAX_SEGMENT_BYTES;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+    this.drainIntervalMs = options.drainIntervalMs ?? DEFAULT_DRAIN_INTERVAL_MS;
+    this.maxEntries = Math.max(1, maxEntries);
+    this.send = send;
+    this.onError = onError;
+
+    if (!this.directory) {
+      throw new Error('pino-cloud-logging: spool directory is required');
+    }
+    if (!(this.maxSegmentBytes > 0) || !(this.maxBytes >= this.maxSegmentBytes)) {
+      throw new Error('pino-cloud-logging: spool maxBytes must be at least maxSegmentBytes');
+    }
+
+    this.ready = this.open().finally(() => {
+      this.opening = false;
+    });
+    // Failures to open are reported by every append
+    this.ready.catch(() => {});
+  }
+
+  /**
+   * Whether entries wait to be replayed, or may be left by a previous
+   * process while the spool is opening. New entries must then be
+   * appended to the spool to keep their order.
+   */
+  get active(): boolean {
+    return this.opening || this.queued() > 0 || this.draining !== undefined;
+  }
+
+  /**
+   * Counters of spooled, queued and dropped entries
+   */
+  getStats(): SpoolStats {
+    return { ...this.stats, spoolQueued: this.queued() };
+  }
+
+  /**
+   * Append entries to the active segment and schedule their replay
+   */
+  async append(entries: SpooledEntry[]): Promise<void> {
+    // Serialize outside the lock; entries keep the insertId they were created with
+    const lines = entries.map((entry) => JSON.stringify(entry) + '\n').join('');
+    const bytes = Buffer.byteLength(lines);
+
+    await this.ready;
+    await this.exclusive(async () => {
+      if (this.closed) {
+        throw new Error('pino-cloud-logging: spool is closed');
+      }
+
+      let segment = this.segments[this.segments.length - 1];
+      if (segment.size > 0 && segment.size + bytes > this.maxSegmentBytes) {
+        segment = this.startSegment();
+      }
+      await appendFile(this.segmentPath(segment.seq), lines);
+      segment.size += bytes;
+      segment.entries += entries.length;
+      segment.updatedAt = Date.now();
+      this.stats.spooled += entries.length;
+
+      await this.enforceLimits();
+    });
+
+    this.scheduleDrain(0);
+  }
+
+  /**
+   * Stop replaying, waiting for a replay in progress. Spooled entries
+   * stay on disk for the next process.
+   *
+   * @param timeoutMs - Optional deadline for the replay in progress. A
+   *   replay still writing afterwards is abandoned; its entries stay on
+   *   disk since the checkpoint only moves once they were written.
+   */
+  async close(timeoutMs?: number): Promise<void> {
+    this.closed = true;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const stopped = Promise.all([this.draining, this.ready.catch(() => {})]);
+    if (timeoutMs === undefined) {
+      await stopped;
+      return;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, timeoutMs);
+    });
+
+    try {
+      await Promise.race([stopped, deadline]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Load the segments and checkpoint left by a previous process and
+   * start a new active segment after them
+   */
+  private async open(): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    try {
+      const checkpoint = JSON.parse(await readFile(join(this.directory, CHECKPOINT_FILE), 'utf8'));
+      if (Number.isInteger(checkpoint?.segment) && Number.isInteger(checkpoint?.offset)) {
+        this.checkpoint = checkpoint;
+      }
+    } catch {
+      // No checkpoint yet: replay everything
+    }
+
+    const seqs = (await readdir(this.directory))
+      .map((name) => SEGMENT_PATTERN.exec(name)?.[1])
+      .filter((seq): seq is string => seq !== undefined)
+      .map(Number)
+      .sort((a, b) => a - b);
+
+    for (const seq of seqs) {
+      const path = this.segmentPath(seq);
+      if (seq < this.checkpoint.segment) {
+        await unlink(path);
+        continue;
+      }
+      const info = await stat(path);
+      let buffer = await readFile(path);
+      if (seq === this.checkpoint.segment) {
+        buffer = buffer.subarray(this.checkpoint.offset);
+      }
+      this.segments.push({
+        seq,
+        size: info.size,
+        entries: countLines(buffer),
+        updatedAt: info.mtimeMs,
+      });
+    }
+
+    // A torn line at the end of the last segment stays there; appends
+    // always go to a new segment
+    const last = this.segments[this.segments.length - 1];
+    const seq = Math.max(last ? last.seq + 1 : 0, this.checkpoint.segment);
+    if (this.segments[0]?.seq !== this.checkpoint.segment) {
+      this.checkpoint = { segment: this.segments[0]?.seq ?? seq, offset: 0 };
+    }
+    this.segments.push({ seq, size: 0, entries: 0, updatedAt: Date.now() });
+
+    if (this.queued() > 0) {
+      this.scheduleDrain(0);
+    }
+  }
+
+  /**
+   * Number of entries waiting to be replayed
+   */
+  private queued(): number {
+    return this.segments.reduce((sum, segment) => sum + segment.entries, 0);
+  }
+
+  /**
+   * Run a function after all previously started ones, so appends,
+   * reads and checkpoint updates never interleave
+   */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(fn);
+    this.lock = result.catch(() => {});
+    return result;
+  }
+
+  private segmentPath(seq: number): string {
+    return join(this.directory, `${String(seq).padStart(10, '0')}.ndjson`);
+  }
+
+  /**
+   * Start a new active segment
+   */
+  private startSegment(): Segment {
+    const last = this.segments[this.segments.length - 1];
+    const segment = { seq: last.seq + 1, size: 0, entries: 0, updatedAt: Date.now() };
+    this.segments.push(segment);
+    return segment;
+  }
+
+  /**
+   * Drop the oldest segments while the spool exceeds maxBytes, and
+   * segments whose newest entry is older than maxAgeMs. The active
+   * segment is never dropped. Entries of a batch being replayed from a
+   * dropped segment only count as dropped if their send fails.
+   */
+  private async enforceLimits(): Promise<void> {
+    const expiry = Date.now() - this.maxAgeMs;
+    let total = this.segments.reduce((sum, segment) => sum + segment.size, 0) - this.checkpoint.offset;
+
+    while (this.segments.length > 1) {
+      const head = this.segments[0];
+      let reason: SpoolBatch['droppedAs'];
+      if (total > this.maxBytes) {
+        reason = 'droppedSpoolOverflow';
+      } else if (head.updatedAt < expiry) {
+        reason = 'droppedSpoolExpired';
+      } else {
+        break;
+      }
+
+      let dropped = head.entries;
+      if (this.replaying?.segment === head.seq) {
+        dropped -= this.replaying.lines;
+        this.replaying.droppedAs = reason;
+      }
+      this.stats[reason] += dropped;
+      total -= head.size - this.checkpoint.offset;
+      await this.removeHead();
+    }
+  }
+
+  /**
+   * Delete the head segment and move the checkpoint to the next one
+   */
+  private async removeHead(): Promise<void> {
+    const head = this.segments.shift() as Segment;
+    await this.writeCheckpoint({ segment: this.segments[0].seq, offset: 0 });
+    await unlink(this.segmentPath(head.seq)).catch(() => {});
+  }
+
+  /**
+   * Write the checkpoint to a temporary file and rename it, so a crash
+   * leaves either the old or the new checkpoint
+   */
+  private async writeCheckpoint(checkpoint: Checkpoint): Promise<void> {
+    const path = join(this.directory, CHECKPOINT_FILE);
+    const temporary = `${path}.tmp`;
+    const file = await open(temporary, 'w');
+    try {
+      await file.writeFile(JSON.stringify(checkpoint));
+      await file.datasync();
+    } finally {
+      await file.close();
+    }
+    await rename(temporary, path);
+    this.checkpoint = checkpoint;
+  }
+
+  /**
+   * Start the drain timer if none is pending
+   */
+  private scheduleDrain(delay: number): void {
+    if (this.timer || this.draining || this.closed) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.draining = this.drain()
+        .catch(() => this.drainIntervalMs)
+        .then((retryDelay) => {
+          this.draining = undefined;
+          // Entries appended while the replay was ending start another one
+          if (retryDelay !== undefined || this.queued() > 0) {
+            this.scheduleDrain(retryDelay ?? 0);
+          }
+        });
+    }, delay);
+    this.timer.unref();
+  }
+
+  /**
+   * Replay spooled entries in order until the spool is empty or a
+   * write fails with a retryable error. Entries failing with other
+   * errors are dropped.
+   *
+   * @returns The delay before the next attempt after a failure
+   */
+  private async drain(): Promise<number | undefined> {
+    while (!this.closed) {
+      const batch = await this.exclusive(async () => {
+        await this.enforceLimits();
+        return this.readBatch();
+      });
+      if (!batch) {
+        return undefined;
+      }
+
+      // Appends may drop the segment while the batch is sent outside the lock
+      this.replaying = batch;
+      try {
+        if (batch.entries.length > 0) {
+          try {
+            await this.send(batch.entries[0].logName, batch.entries, batch.bytes);
+          } catch (err) {
+            if (isRetryableError(err) || this.closed) {
+              if (batch.droppedAs) {
+                this.stats[batch.droppedAs] += batch.lines;
+              }
+              return this.drainIntervalMs;
+            }
+            this.stats.droppedNonRetryable += batch.entries.length;
+            this.onError?.(err instanceof Error ? err : new Error(String(err)), batch.entries.length);
+          }
+        }
+
+        await this.exclusive(() => this.commit(batch));
+      } finally {
+        this.replaying = undefined;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Read the next entries of one log from the head segment
+   *
+   * @returns The entries, the position, bytes and lines they span, or
+   *   undefined if nothing waits to be replayed
+   */
+  private async readBatch(): Promise<SpoolBatch | undefined> {
+    const head = this.segments[0];
+    const active = this.segments.length === 1;
+    const offset = this.checkpoint.offset;
+    const remaining = head.size - offset;
+    if (remaining <= 0) {
+      if (active) {
+        return undefined;
+      }
+      await this.removeHead();
+      return { segment: head.seq, offset, entries: [], bytes: 0, lines: 0 };
+    }
+
+    const file = await open(this.segmentPath(head.seq), 'r');
+    let buffer: Buffer;
+    try {
+      buffer = Buffer.alloc(remaining);
+      await file.read(buffer, 0, remaining, offset);
+    } finally {
+      await file.close();
+    }
+
+    const entries: SpooledEntry[] = [];
+    let bytes = 0;
+    let lines = 0;
+    while (bytes < buffer.length && entries.length < this.maxEntries) {
+      const end = buffer.indexOf(NEWLINE, bytes);
+      if (end === -1) {
+        // A torn line left by a crash; skip it
+        bytes = buffer.length;
+        break;
+      }
+
+      let entry: SpooledEntry | undefined;
+      try {
+        entry = JSON.parse(buffer.toString('utf8', bytes, end)) as SpooledEntry;
+      } catch {
+        // Skip unreadable lines
+      }
+      if (entry && entries.length > 0 && entry.logName !== entries[0].logName) {
+        break;
+      }
+      if (entry) {
+        entries.push(entry);
+      }
+      bytes = end + 1;
+      lines++;
+    }
+
+    return { segment: head.seq, offset, entries, bytes, lines };
+  }
+
+  /**
+   * Advance the checkpoint past replayed entries, deleting the head
+   * segment once it has been replayed completely. Nothing moves if the
+   * limits dropped the batch's segment while it was sent.
+   */
+  private async commit(batch: SpoolBatch): Promise<void> {
+    const head = this.segments[0];
+    if (batch.bytes === 0 || head.seq !== batch.segment || this.checkpoint.offset !== batch.offset) {
+      return;
+    }
+    head.entries = Math.max(0, head.entries - batch.lines);
+
+    if (batch.offset + batch.bytes < head.size) {
+      await this.writeCheckpoint({ segment: head.seq, offset: batch.offset + batch.bytes });
+      return;
+    }
+
+    // Replace a fully replayed active segment with a new one
+    if (this.segments.length === 1) {
+      this.startSegment();
+    }
+    await this.removeHead();
+  }
+}
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LoggingCommon } from './common.js';
+import { formatDuration, toStructuredRecord } from './structured.js';
+import { LOGGING_SPAN_KEY, LOGGING_TRACE_KEY } from './types.js';
+
+test('formats durations like the JSON encoding of the API', () => {
+  assert.equal(formatDuration({ seconds: 2 }), '2s');
+  assert.equal(formatDuration({ seconds: 1, nanos: 500000000 }), '1.500s');
+  assert.equal(formatDuration({ seconds: '0', nanos: 1500 }), '0.000001500s');
+});
+
+test('keeps special fields ahead of payload fields', () => {
+  const record = toStructuredRecord(
+    {
+      metadata: {
+        severity: 'WARNING',
+        timestamp: new Date('2024-01-02T03:04:05.678Z'),
+        trace: 'projects/p/traces/t',
+        spanId: '12',
+        httpRequest: { status: 200, latency: { seconds: 0, nanos: 250000000 } },
+      },
+      data: { severity: 'spoofed', orderId: 7 },
+      message: 'slow',
+    },
+    'projects/p/logs/app'
+  );
+
+  assert.deepEqual(JSON.parse(JSON.stringify(record)), {
+    severity: 'WARNING',
+    message: 'slow',
+    timestamp: '2024-01-02T03:04:05.678Z',
+    logName: 'projects/p/logs/app',
+    httpRequest: { status: 200, latency: '0.250s' },
+    [LOGGING_TRACE_KEY]: 'projects/p/traces/t',
+    [LOGGING_SPAN_KEY]: '12',
+    orderId: 7,
+  });
+});
+
+test('writes structured lines to a stream in fast stdout mode', async () => {
+  const lines: string[] = [];
+  const logging = new LoggingCommon({
+    projectId: 'test',
+    logName: 'app/requests',
+    redirectToStdout: true,
+    fastStdout: true,
+    destination: { write: (line: string) => lines.push(line) },
+  });
+
+  const time = Date.parse('2024-01-02T03:04:05.678Z');
+  await logging.writeLog({ level: 50, time, msg: 'failed', orderId: 7 });
+  await logging.shutdown();
+
+  assert.equal(lines.length, 1);
+  assert.ok(lines[0].endsWith('\n'));
+  const record = JSON.parse(lines[0]);
+  assert.equal(record.severity, 'ERROR');
+  assert.equal(record.message, 'failed');
+  assert.equal(record.timestamp, '2024-01-02T03:04:05.678Z');
+  assert.equal(record.logName, 'projects/test/logs/app%2Frequests');
+  assert.equal(record.orderId, 7);
+});
+
+test('truncates oversized entries in fast stdout mode', async () => {
+  const lines: string[] = [];
+  const logging = new LoggingCommon({
+    projectId: 'test',
+    redirectToStdout: true,
+    fastStdout: true,
+    maxEntrySize: 1000,
+    destination: { write: (line: string) => lines.push(line) },
+  });
+
+  await logging.writeLog({ level: 30, time: Date.now(), msg: 'x'.repeat(5000) });
+  await logging.shutdown();
+
+  assert.ok(Buffer.byteLength(lines[0]) <= 1000);
+  assert.match(JSON.parse(lines[0]).message, /\.\.\.\[truncated\]$/);
+});
+
+test('appends to a file destination and closes it on shutdown', async () => {
+  const directory = await mkdtemp(join(tmpdir(), 'pino-cloud-logging-structured-'));
+  try {
+    const path = join(directory, 'logs', 'app.log');
+    const logging = new LoggingCommon({ redirectToStdout: true, fastStdout: true, destination: path });
+
+    await logging.writeLog({ level: 30, time: Date.now(), msg: 'first' });
+    await logging.writeLog({ level: 30, time: Date.now(), msg: 'second' });
+    await logging.shutdown();
+
+    const messages = (await readFile(path, 'utf8'))
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line).message);
+    assert.deepEqual(messages, ['first', 'second']);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,138 @@
+/**
+ * Direct output of the structured logging JSON format
+ */
+
+import SonicBoom from 'sonic-boom';
+import {
+  type DestinationStream,
+  type HttpRequest,
+  LOGGING_TRACE_KEY,
+  LOGGING_SPAN_KEY,
+  LOGGING_SAMPLED_KEY,
+  LOGGING_SOURCE_LOCATION_KEY,
+  LOGGING_OPERATION_KEY,
+  LOGGING_INSERT_ID_KEY,
+} from './types.js';
+import { composeMessage, type TruncatableEntry } from './truncate.js';
+
+/**
+ * Special field of the entry labels
+ */
+const LOGGING_LABELS_KEY = 'logging.googleapis.com/labels';
+
+/**
+ * Format a protobuf Duration the way the API's JSON encoding does,
+ * e.g. { seconds: 1, nanos: 500000000 } as '1.500s'
+ */
+export function formatDuration(duration: { seconds?: unknown; nanos?: unknown }): string {
+  const seconds = Number(duration.seconds ?? 0);
+  const nanos = Number(duration.nanos ?? 0);
+  if (nanos === 0) {
+    return `${seconds}s`;
+  }
+  const fraction = String(nanos).padStart(9, '0').replace(/(000)+$/, '');
+  return `${seconds}.${fraction}s`;
+}
+
+/**
+ * Convert the latency of an httpRequest to a duration string
+ */
+function formatHttpRequest(httpRequest: HttpRequest): HttpRequest {
+  const latency = httpRequest.latency;
+  if (!latency || typeof latency !== 'object') {
+    return httpRequest;
+  }
+  return { ...httpRequest, latency: formatDuration(latency) as HttpRequest['latency'] };
+}
+
+/**
+ * Build the structured logging record of an entry: the special fields
+ * the logging agent maps to entry metadata, followed by the payload fields.
+ * Payload fields never override special fields.
+ *
+ * @param entry - The entry metadata, JSON payload, message and stack
+ * @param logName - Full log resource name, if known
+ * @returns The record to serialize as one line of JSON
+ */
+export function toStructuredRecord(
+  entry: TruncatableEntry,
+  logName?: string
+): Record<string, unknown> {
+  const { metadata, data } = entry;
+  // Like the client library, stamp entries without a timestamp with the current time
+  const timestamp = metadata.timestamp ?? new Date();
+
+  const record: Record<string, unknown> = {
+    severity: metadata.severity ?? undefined,
+    message: composeMessage(entry.message, entry.stack) ?? data.message,
+    timestamp: timestamp instanceof Date ? timestamp.toISOString() : timestamp,
+    logName,
+    httpRequest: metadata.httpRequest ? formatHttpRequest(metadata.httpRequest) : undefined,
+    [LOGGING_LABELS_KEY]: metadata.labels ?? undefined,
+    [LOGGING_INSERT_ID_KEY]: metadata.insertId ?? undefined,
+    [LOGGING_TRACE_KEY]: metadata.trace ?? undefined,
+    [LOGGING_SPAN_KEY]: metadata.spanId ?? undefined,
+    [LOGGING_SAMPLED_KEY]: metadata.traceSampled ?? undefined,
+    [LOGGING_SOURCE_LOCATION_KEY]: metadata.sourceLocation ?? undefined,
+    [LOGGING_OPERATION_KEY]: metadata.operation ?? undefined,
+  };
+
+  for (const key in data) {
+    if (!(key in record)) {
+      record[key] = data[key];
+    }
+  }
+  return record;
+}
+
+/**
+ * Writer of structured logging JSON lines, bypassing the client
+ * library's entry objects. The logging agents of Cloud Run, Cloud
+ * Functions, GKE and App Engine parse these lines into log entries.
+ */
+export class StructuredWriter {
+  private stream: DestinationStream;
+  private ownsStream: boolean;
+
+  /**
+   * @param destination - A file descriptor, a file path, or a stream
+   */
+  constructor(destination: number | string | DestinationStream = 1) {
+    if (typeof destination === 'number' || typeof destination === 'string') {
+      // Synchronous writes keep entries of crashing processes
+      this.stream = new SonicBoom({ dest: destination, sync: true, mkdir: true });
+      // File descriptors belong to the caller and stay open
+      this.ownsStream = typeof destination === 'string';
+    } else {
+      this.stream = destination;
+      this.ownsStream = false;
+    }
+  }
+
+  /**
+   * Format an entry as one line of JSON
+   *
+   * @param entry - The entry metadata, JSON payload, message and stack
+   * @param logName - Full log resource name, if known
+   * @returns The line, including the trailing newline
+   */
+  format(entry: TruncatableEntry, logName?: string): string {
+    return JSON.stringify(toStructuredRecord(entry, logName)) + '\n';
+  }
+
+  /**
+   * Write a formatted line
+   */
+  write(line: string): void {
+    this.stream.write(line);
+  }
+
+  /**
+   * Close the destination if it is a file opened by this writer
+   */
+  close(): void {
+    if (this.ownsStream) {
+      this.stream.end?.();
+    }
+  }
+}
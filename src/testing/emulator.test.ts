@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LoggingCommon } from '../common.js';
+import { LoggingEmulator } from './emulator.js';
+import { MemorySink } from './memory-sink.js';
+
+const OPTIONS = {
+  projectId: 'test',
+  logName: 'app',
+  resource: { type: 'global' },
+  labels: { env: 'test' },
+} as const;
+
+test('captures entries written through the API', async () => {
+  const emulator = new LoggingEmulator();
+  const logging = new LoggingCommon({ ...OPTIONS, emulatorHost: await emulator.start() });
+  try {
+    await logging.writeLog({ level: 50, time: Date.now(), msg: 'failed', orderId: 7 });
+    await logging.writeLog({ level: 30, time: Date.now(), msg: 'done' });
+    assert.equal(await logging.flush(), true);
+
+    assert.equal(emulator.requestCount, 1);
+    assert.deepEqual(
+      emulator.entries.map(({ logName, severity, labels, resource, jsonPayload }) => ({
+        logName,
+        severity,
+        labels,
+        resource,
+        jsonPayload,
+      })),
+      [
+        {
+          logName: 'app',
+          severity: 'ERROR',
+          labels: { env: 'test' },
+          resource: { type: 'global', labels: {} },
+          jsonPayload: { message: 'failed', orderId: 7 },
+        },
+        {
+          logName: 'app',
+          severity: 'INFO',
+          labels: { env: 'test' },
+          resource: { type: 'global', labels: {} },
+          jsonPayload: { message: 'done' },
+        },
+      ]
+    );
+  } finally {
+    await logging.shutdown();
+    await emulator.stop();
+  }
+});
+
+test('captures the same entries as the memory sink', async () => {
+  const emulator = new LoggingEmulator();
+  const sink = new MemorySink();
+  const api = new LoggingCommon({ ...OPTIONS, emulatorHost: await emulator.start() });
+  const memory = new LoggingCommon({ ...OPTIONS, writer: sink });
+  try {
+    const time = Date.parse('2024-01-02T03:04:05.678Z');
+    for (const logging of [api, memory]) {
+      await logging.writeLog({ level: 40, time, msg: 'slow', latencyMs: 1200 });
+      await logging.flush();
+    }
+
+    // insertIds are unique per instance, and the client library adds
+    // empty resource labels and converts timestamps to seconds and nanos
+    const [captured] = emulator.entries;
+    const [sinkCaptured] = sink.entries;
+    assert.ok(Math.abs(Date.parse(String(captured.timestamp)) - time) <= 1);
+    assert.equal(Date.parse(String(sinkCaptured.timestamp)), time);
+    for (const key of ['logName', 'severity', 'labels', 'jsonPayload'] as const) {
+      assert.deepEqual(sinkCaptured[key], captured[key]);
+    }
+    assert.equal(sinkCaptured.resource?.type, captured.resource?.type);
+  } finally {
+    await api.shutdown();
+    await memory.shutdown();
+    await emulator.stop();
+  }
+});
+
+test('fails write requests on demand', async () => {
+  const emulator = new LoggingEmulator();
+  const logging = new LoggingCommon({ ...OPTIONS, emulatorHost: await emulator.start() });
+  try {
+    emulator.failNext(1, 403);
+    const results: Array<Error | null> = [];
+    await logging.writeLog({ level: 30, time: Date.now(), msg: 'denied' }, (err) => results.push(err));
+    await logging.flush();
+
+    assert.equal(results.length, 1);
+    assert.ok(results[0] instanceof Error);
+    assert.equal(emulator.entries.length, 0);
+
+    await logging.writeLog({ level: 30, time: Date.now(), msg: 'allowed' });
+    await logging.flush();
+    assert.deepEqual(emulator.entries.map((entry) => entry.jsonPayload?.message), ['allowed']);
+    assert.equal(emulator.requestCount, 2);
+
+    emulator.clear();
+    assert.equal(emulator.entries.length, 0);
+    assert.equal(emulator.requestCount, 0);
+  } finally {
+    await logging.shutdown();
+    await emulator.stop();
+  }
+});
@@ -0,0 +1,271 @@
+/**
+ * Local stand-in for the Cloud Logging API
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { CapturedLogEntry, MonitoredResource } from '../types.js';
+
+/**
+ * Path of the REST entries:write method
+ */
+const WRITE_PATH = '/v2/entries:write';
+
+/**
+ * Payload key of the diagnostic entry the client library adds to its first write
+ */
+const DIAGNOSTIC_KEY = 'logging.googleapis.com/diagnostic';
+
+/**
+ * Severity names by their enum values, which the client sends as numbers
+ */
+const SEVERITY_NAMES: Record<number, string> = {
+  0: 'DEFAULT',
+  100: 'DEBUG',
+  200: 'INFO',
+  300: 'NOTICE',
+  400: 'WARNING',
+  500: 'ERROR',
+  600: 'CRITICAL',
+  700: 'ALERT',
+  800: 'EMERGENCY',
+};
+
+/**
+ * API status names by HTTP status code
+ */
+const STATUS_NAMES: Record<number, string> = {
+  400: 'INVALID_ARGUMENT',
+  401: 'UNAUTHENTICATED',
+  403: 'PERMISSION_DENIED',
+  404: 'NOT_FOUND',
+  429: 'RESOURCE_EXHAUSTED',
+  500: 'INTERNAL',
+  503: 'UNAVAILABLE',
+  504: 'DEADLINE_EXCEEDED',
+};
+
+/**
+ * Body of an entries:write request
+ */
+interface WriteRequest {
+  logName?: string;
+  resource?: MonitoredResource;
+  labels?: Record<string, string>;
+  entries?: Array<Record<string, unknown>>;
+}
+
+/**
+ * Options for the logging emulator
+ */
+export interface LoggingEmulatorOptions {
+  /**
+   * Port to listen on. Default: a free port chosen by the system
+   */
+  port?: number;
+
+  /**
+   * Interface to listen on. Default: '127.0.0.1'
+   */
+  host?: string;
+}
+
+/**
+ * Extract the log ID from a log resource name such as
+ * projects/my-project/logs/my-log
+ */
+function parseLogName(logName: string): string {
+  const match = /\/logs\/([^/]+)$/.exec(logName);
+  return match ? decodeURIComponent(match[1]) : logName;
+}
+
+/**
+ * Convert an entry of a write request to its captured form, applying the
+ * request-level log name, resource and labels
+ */
+function captureEntry(request: WriteRequest, entry: Record<string, unknown>): CapturedLogEntry {
+  const { logName, resource, labels, severity, ...fields } = entry;
+  const captured: CapturedLogEntry = {
+    logName: parseLogName(String(logName ?? request.logName ?? '')),
+    ...fields,
+  };
+
+  if (severity !== undefined) {
+    captured.severity =
+      typeof severity === 'number' ? (SEVERITY_NAMES[severity] ?? String(severity)) : String(severity);
+  }
+  const entryResource = (resource as MonitoredResource | undefined) ?? request.resource;
+  if (entryResource) {
+    captured.resource = entryResource;
+  }
+  const entryLabels = { ...request.labels, ...(labels as Record<string, string> | undefined) };
+  if (Object.keys(entryLabels).length > 0) {
+    captured.labels = entryLabels;
+  }
+
+  return captured;
+}
+
+/**
+ * Read a request body as JSON
+ */
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const body = Buffer.concat(chunks).toString('utf8');
+  return body ? JSON.parse(body) : {};
+}
+
+/**
+ * Send an API error response
+ */
+function sendError(res: ServerResponse, code: number, message: string): void {
+  res.writeHead(code, { 'content-type': 'application/json' });
+  res.end(JSON.stringify({ error: { code, message, status: STATUS_NAMES[code] ?? 'UNKNOWN' } }));
+}
+
+/**
+ * Minimal local stand-in for the Cloud Logging API. It serves the REST
+ * entries:write method the client library uses over HTTP and captures the
+ * written entries, so the API path, including batching and retries, can be
+ * exercised offline. Point the transport at it with the emulatorHost option
+ * or the LOGGING_EMULATOR_HOST environment variable.
+ *
+ * @example
+ * ```typescript
+ * import { LoggingCommon } from 'pino-cloud-logging';
+ * import { LoggingEmulator } from 'pino-cloud-logging/testing';
+ *
+ * const emulator = new LoggingEmulator();
+ * const host = await emulator.start();
+ * const logging = new LoggingCommon({ emulatorHost: host, resource: { type: 'global' } });
+ *
+ * await logging.writeLog({ level: 50, time: Date.now(), msg: 'failed' });
+ * await logging.flush();
+ * assert.equal(emulator.entries[0].severity, 'ERROR');
+ * await emulator.stop();
+ * ```
+ */
+export class LoggingEmulator {
+  /**
+   * Entries written so far, in the order they were received. The
+   * diagnostic entry the client library adds to its first write is left out.
+   */
+  readonly entries: CapturedLogEntry[] = [];
+
+  /**
+   * Number of entries:write requests received, including failed ones
+   */
+  requestCount = 0;
+
+  private port: number;
+  private hostname: string;
+  private server?: Server;
+  private failures: number[] = [];
+
+  constructor(options: LoggingEmulatorOptions = {}) {
+    this.port = options.port ?? 0;
+    this.hostname = options.host ?? '127.0.0.1';
+  }
+
+  /**
+   * Host and port to use as emulatorHost, e.g. '127.0.0.1:8085'
+   */
+  get host(): string {
+    return `${this.hostname}:${this.port}`;
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns The host and port the emulator listens on
+   */
+  async start(): Promise<string> {
+    if (this.server) {
+      return this.host;
+    }
+
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((err: Error) => sendError(res, 400, err.message));
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.hostname, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.port = (server.address() as AddressInfo).port;
+    return this.host;
+  }
+
+  /**
+   * Fail the next write requests, e.g. to exercise retries. The client
+   * library retries some errors itself before the transport sees them.
+   *
+   * @param count - Number of requests to fail
+   * @param status - HTTP status code of the failures. Default: 503
+   */
+  failNext(count = 1, status = 503): void {
+    for (let i = 0; i < count; i++) {
+      this.failures.push(status);
+    }
+  }
+
+  /**
+   * Remove all captured entries and pending failures
+   */
+  clear(): void {
+    this.entries.length = 0;
+    this.failures = [];
+    this.requestCount = 0;
+  }
+
+  /**
+   * Stop listening and close open connections
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Handle a request to the emulator
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = (req.url ?? '').split('?')[0];
+    if (req.method !== 'POST' || path !== WRITE_PATH) {
+      sendError(res, 404, `${req.method} ${path} is not supported by the emulator`);
+      return;
+    }
+
+    const request = (await readJson(req)) as WriteRequest;
+    this.requestCount++;
+
+    const failure = this.failures.shift();
+    if (failure !== undefined) {
+      sendError(res, failure, 'Failure requested with failNext()');
+      return;
+    }
+
+    for (const entry of request.entries ?? []) {
+      const payload = entry.jsonPayload as Record<string, unknown> | undefined;
+      if (payload && DIAGNOSTIC_KEY in payload) {
+        continue;
+      }
+      this.entries.push(captureEntry(request, entry));
+    }
+
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end('{}');
+  }
+}
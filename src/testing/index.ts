@@ -0,0 +1,2 @@
+export { MemorySink } from './memory-sink.js';
+export { LoggingEmulator, type LoggingEmulatorOptions } from './emulator.js';
@@ -0,0 +1,97 @@
+/**
+ * In-memory log writer for tests
+ */
+
+import type { Entry } from '@google-cloud/logging';
+import type { CapturedLogEntry, HttpRequest, LogWriter } from '../types.js';
+import { formatDuration } from '../structured.js';
+
+/**
+ * httpRequest fields encoded as strings in the API's JSON, being 64-bit integers
+ */
+const INT64_FIELDS = ['requestSize', 'responseSize', 'cacheFillBytes'] as const;
+
+/**
+ * Convert an httpRequest to the API's JSON encoding
+ */
+function encodeHttpRequest(httpRequest: HttpRequest): HttpRequest {
+  const encoded: Record<string, unknown> = { ...httpRequest };
+  for (const field of INT64_FIELDS) {
+    if (typeof encoded[field] === 'number') {
+      encoded[field] = String(encoded[field]);
+    }
+  }
+  if (httpRequest.latency && typeof httpRequest.latency === 'object') {
+    encoded.latency = formatDuration(httpRequest.latency);
+  }
+  return encoded as HttpRequest;
+}
+
+/**
+ * Convert a written entry to its captured form, matching what the
+ * logging emulator receives for the same entry
+ */
+export function captureEntry(logName: string, entry: Entry): CapturedLogEntry {
+  const { timestamp, httpRequest, ...metadata } = entry.metadata;
+  const captured: CapturedLogEntry = { logName };
+
+  for (const [key, value] of Object.entries(metadata)) {
+    if (value !== undefined && value !== null) {
+      captured[key] = value;
+    }
+  }
+  if (timestamp instanceof Date) {
+    captured.timestamp = timestamp.toISOString();
+  } else if (typeof timestamp === 'string') {
+    captured.timestamp = timestamp;
+  }
+  if (httpRequest) {
+    captured.httpRequest = encodeHttpRequest(httpRequest);
+  }
+  if (entry.data !== undefined) {
+    captured.jsonPayload = entry.data as Record<string, unknown>;
+  }
+
+  return captured;
+}
+
+/**
+ * Log writer keeping entries in memory, so tests can assert on exactly
+ * what would have been written. Pass it as the writer option of
+ * LoggingCommon or createTransport.
+ *
+ * @example
+ * ```typescript
+ * import { LoggingCommon } from 'pino-cloud-logging';
+ * import { MemorySink } from 'pino-cloud-logging/testing';
+ *
+ * const sink = new MemorySink();
+ * const logging = new LoggingCommon({ projectId: 'test', writer: sink });
+ *
+ * await logging.writeLog({ level: 30, time: Date.now(), msg: 'hello' });
+ * await logging.flush();
+ * assert.equal(sink.entries[0].severity, 'INFO');
+ * ```
+ */
+export class MemorySink implements LogWriter {
+  /**
+   * Entries written so far, in the order they were written
+   */
+  readonly entries: CapturedLogEntry[] = [];
+
+  /**
+   * Capture the entries of a batch
+   */
+  async write(logName: string, entries: Entry[]): Promise<void> {
+    for (const entry of entries) {
+      this.entries.push(captureEntry(logName, entry));
+    }
+  }
+
+  /**
+   * Remove all captured entries
+   */
+  clear(): void {
+    this.entries.length = 0;
+  }
+}
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatSpanId, parseTraceHeader, parseTraceparent, parseTraceState } from './trace.js';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+
+test('parses W3C traceparent headers', () => {
+  assert.deepEqual(parseTraceparent(`00-${TRACE_ID}-00f067aa0ba902b7-01`, 'p'), {
+    trace: `projects/p/traces/${TRACE_ID}`,
+    spanId: '00f067aa0ba902b7',
+    sampled: true,
+    traceState: {},
+  });
+
+  const unsampled = parseTraceparent(` 00-${TRACE_ID.toUpperCase()}-00F067AA0BA902B7-02 `, 'p');
+  assert.equal(unsampled.trace, `projects/p/traces/${TRACE_ID}`);
+  assert.equal(unsampled.spanId, '00f067aa0ba902b7');
+  assert.equal(unsampled.sampled, false);
+});
+
+test('accepts extra fields of future traceparent versions only', () => {
+  assert.equal(parseTraceparent(`01-${TRACE_ID}-00f067aa0ba902b7-01-extra`, 'p').spanId, '00f067aa0ba902b7');
+  assert.equal(parseTraceparent(`00-${TRACE_ID}-00f067aa0ba902b7-01-extra`, 'p').trace, null);
+});
+
+test('rejects invalid traceparent headers', () => {
+  const invalid = [
+    '',
+    `ff-${TRACE_ID}-00f067aa0ba902b7-01`,
+    `0-${TRACE_ID}-00f067aa0ba902b7-01`,
+    `00-${'0'.repeat(32)}-00f067aa0ba902b7-01`,
+    `00-${TRACE_ID}-${'0'.repeat(16)}-01`,
+    `00-${TRACE_ID.slice(1)}-00f067aa0ba902b7-01`,
+    `00-${TRACE_ID}-00f067aa0ba902b7-1`,
+    `00-${TRACE_ID}-00f067aa0ba902b7`,
+    `00-${TRACE_ID.replace('4', 'g')}-00f067aa0ba902b7-01`,
+  ];
+  for (const header of invalid) {
+    assert.equal(parseTraceparent(header, 'p').trace, null, header);
+  }
+  assert.equal(parseTraceparent(`00-${TRACE_ID}-00f067aa0ba902b7-01`, '').trace, null);
+});
+
+test('parses tracestate with the traceparent header', () => {
+  const { traceState } = parseTraceparent(
+    `00-${TRACE_ID}-00f067aa0ba902b7-01`,
+    'p',
+    'congo=t61rcWkgMzE, rojo=00f067aa0ba902b7,invalid,=x,congo=later'
+  );
+  assert.deepEqual(traceState, { congo: 't61rcWkgMzE', rojo: '00f067aa0ba902b7' });
+  assert.deepEqual(Object.keys(parseTraceState('b=1,a=2')), ['b', 'a']);
+  assert.deepEqual(parseTraceState(''), {});
+});
+
+test('normalizes span IDs', () => {
+  assert.equal(formatSpanId(' 00F067AA0BA902B7 '), '00f067aa0ba902b7');
+  assert.equal(formatSpanId('0000000000000000'), null);
+  assert.equal(formatSpanId('12345'), null);
+});
+
+test('parses X-Cloud-Trace-Context headers', () => {
+  assert.deepEqual(parseTraceHeader(`${TRACE_ID}/12345;o=1`, 'p'), {
+    trace: `projects/p/traces/${TRACE_ID}`,
+    spanId: '12345',
+    sampled: true,
+  });
+  assert.deepEqual(parseTraceHeader(TRACE_ID, 'p'), {
+    trace: `projects/p/traces/${TRACE_ID}`,
+    spanId: null,
+    sampled: false,
+  });
+  assert.equal(parseTraceHeader('not a trace', 'p').trace, null);
+});
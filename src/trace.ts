@@ -2,6 +2,8 @@
  * Trace agent integration for Google Cloud Trace correlation
  */
 
+import type { TraceContext, TraceContextProvider } from './types.js';
+
 /**
  * Interface for the Google Cloud Trace Agent
  */
@@ -125,3 +127,193 @@ export function parseTraceHeader(
 
   return result;
 }
+
+/**
+ * Minimal subset of the @opentelemetry/api module used for trace correlation
+ */
+interface OpenTelemetryApi {
+  trace: {
+    getActiveSpan():
+      | { spanContext(): { traceId: string; spanId: string; traceFlags: number } }
+      | undefined;
+  };
+}
+
+/**
+ * Cached @opentelemetry/api module; null if it is not installed
+ */
+let openTelemetryApi: object | null | undefined;
+
+/**
+ * Load @opentelemetry/api if it is installed. The module, or the failure
+ * to find it, is cached, so it is only required once.
+ *
+ * @returns The module, typed as the subset the caller uses, or null
+ */
+export function loadOpenTelemetryApi<T extends object = OpenTelemetryApi>(): T | null {
+  if (openTelemetryApi === undefined) {
+    try {
+      openTelemetryApi = require('@opentelemetry/api') as object;
+    } catch {
+      openTelemetryApi = null;
+    }
+  }
+  return openTelemetryApi as T | null;
+}
+
+const W3C_TRACE_ID = /^[a-f0-9]{32}$/;
+const W3C_SPAN_ID = /^[a-f0-9]{16}$/;
+const W3C_SAMPLED_FLAG = 0x01;
+
+/**
+ * Normalize a W3C or OpenTelemetry span ID for the Cloud Logging
+ * spanId field, which expects the 16-character lowercase hex encoding
+ * of the 8-byte span ID. All-zero IDs are invalid.
+ *
+ * @param spanId The hex span ID
+ * @returns The normalized span ID, or null if it is not a valid W3C span ID
+ */
+export function formatSpanId(spanId: string): string | null {
+  const normalized = spanId.trim().toLowerCase();
+  if (!W3C_SPAN_ID.test(normalized) || /^0+$/.test(normalized)) {
+    return null;
+  }
+  return normalized;
+}
+
+/**
+ * Parse the W3C tracestate header into its list members.
+ * Header format: key1=value1,key2=value2
+ *
+ * @param header The tracestate header value
+ * @returns Ordered map of vendor keys to values
+ */
+export function parseTraceState(header: string): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  if (!header) {
+    return result;
+  }
+
+  for (const member of header.split(',')) {
+    const separator = member.indexOf('=');
+    if (separator <= 0) {
+      continue;
+    }
+    const key = member.slice(0, separator).trim();
+    const value = member.slice(separator + 1).trim();
+    // The leftmost entry wins for duplicate keys
+    if (key && value && !(key in result)) {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Extract trace information from the W3C traceparent header.
+ * Header format: VERSION-TRACE_ID-PARENT_ID-FLAGS
+ *
+ * @param header The traceparent header value
+ * @param projectId The GCP project ID
+ * @param traceStateHeader Optional tracestate header value
+ * @returns Object containing trace, spanId, sampled and traceState values
+ */
+export function parseTraceparent(
+  header: string,
+  projectId: string,
+  traceStateHeader?: string
+): {
+  trace: string | null;
+  spanId: string | null;
+  sampled: boolean;
+  traceState: Record<string, string>;
+} {
+  const result = {
+    trace: null as string | null,
+    spanId: null as string | null,
+    sampled: false,
+    traceState: {} as Record<string, string>,
+  };
+
+  if (!header || !projectId) {
+    return result;
+  }
+
+  const parts = header.trim().toLowerCase().split('-');
+  if (parts.length < 4) {
+    return result;
+  }
+
+  const [version, traceId, parentId, flags] = parts;
+
+  // Version ff is invalid; version 00 must have exactly four parts
+  if (!/^[a-f0-9]{2}$/.test(version) || version === 'ff' || (version === '00' && parts.length > 4)) {
+    return result;
+  }
+
+  const spanId = formatSpanId(parentId);
+  if (!W3C_TRACE_ID.test(traceId) || /^0+$/.test(traceId) || !spanId || !/^[a-f0-9]{2}$/.test(flags)) {
+    return result;
+  }
+
+  result.trace = `projects/${projectId}/traces/${traceId}`;
+  result.spanId = spanId;
+  result.sampled = (parseInt(flags, 16) & W3C_SAMPLED_FLAG) !== 0;
+
+  if (traceStateHeader) {
+    result.traceState = parseTraceState(traceStateHeader);
+  }
+
+  return result;
+}
+
+/**
+ * Get the trace context of the active OpenTelemetry span.
+ * Requires @opentelemetry/api to be installed and a span to be active
+ * in the current async context.
+ *
+ * @param projectId The GCP project ID
+ * @returns The trace context, or null if no valid span is active
+ */
+export function getTraceContextFromOpenTelemetry(projectId?: string): TraceContext | null {
+  const api = loadOpenTelemetryApi();
+  if (!api || !projectId) {
+    return null;
+  }
+
+  const spanContext = api.trace.getActiveSpan()?.spanContext();
+  if (!spanContext) {
+    return null;
+  }
+
+  const traceId = spanContext.traceId.toLowerCase();
+  const spanId = formatSpanId(spanContext.spanId);
+  if (!W3C_TRACE_ID.test(traceId) || /^0+$/.test(traceId) || !spanId) {
+    return null;
+  }
+
+  return {
+    trace: `projects/${projectId}/traces/${traceId}`,
+    spanId,
+    traceSampled: (spanContext.traceFlags & W3C_SAMPLED_FLAG) !== 0,
+  };
+}
+
+/**
+ * Default trace context provider: the active OpenTelemetry span,
+ * falling back to the legacy Google Cloud Trace Agent.
+ *
+ * @param projectId The GCP project ID
+ * @returns The trace context, or null if none is available
+ */
+export const defaultTraceContextProvider: TraceContextProvider = (projectId) => {
+  const otelContext = getTraceContextFromOpenTelemetry(projectId);
+  if (otelContext) {
+    return otelContext;
+  }
+
+  const trace = getCurrentTraceFromAgent();
+  return trace ? { trace } : null;
+};
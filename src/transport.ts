@@ -41,7 +41,8 @@ export default async function createTransport(options: TransportOptions = {}) {
     {
       // Don't parse - pino-abstract-transport will give us parsed objects
       async close() {
-        // Nothing to clean up - Cloud Logging client handles its own cleanup
+        // Drain buffered and retrying entries before the worker exits
+        await loggingCommon.shutdown();
       },
     }
   );
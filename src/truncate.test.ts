@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  composeEntry,
+  truncateEntry,
+  TRUNCATED_FIELDS_LABEL,
+  TRUNCATED_LABEL,
+  TRUNCATED_ORIGINAL_SIZE_LABEL,
+  type TruncatableEntry,
+} from './truncate.js';
+
+function size(entry: TruncatableEntry): number {
+  const parts = composeEntry(structuredClone(entry));
+  return Buffer.byteLength(JSON.stringify({ ...parts.metadata, data: parts.data }));
+}
+
+test('leaves entries within the limit unchanged', () => {
+  const entry: TruncatableEntry = { metadata: {}, data: { a: 1 }, message: 'hello' };
+  assert.equal(truncateEntry(entry, 1000), false);
+  assert.equal(entry.message, 'hello');
+  assert.equal(entry.metadata.labels, undefined);
+});
+
+test('truncates the message first and labels the entry', () => {
+  const entry: TruncatableEntry = {
+    metadata: { labels: { app: 'test' } },
+    data: { small: 'x' },
+    message: 'm'.repeat(5000),
+  };
+  const originalSize = size(entry);
+
+  assert.equal(truncateEntry(entry, 2000), true);
+  assert.ok(entry.message!.endsWith('...[truncated]'));
+  assert.equal(entry.data.small, 'x');
+  assert.ok(size(entry) <= 2000);
+  assert.deepEqual(entry.metadata.labels, {
+    app: 'test',
+    [TRUNCATED_LABEL]: 'true',
+    [TRUNCATED_ORIGINAL_SIZE_LABEL]: String(originalSize),
+    [TRUNCATED_FIELDS_LABEL]: 'message',
+  });
+});
+
+test('truncates the stack after the message, then the largest fields', () => {
+  const entry: TruncatableEntry = {
+    metadata: {},
+    data: { big: 'b'.repeat(3000), bigger: { nested: 'n'.repeat(4000) }, small: 's' },
+    message: 'm'.repeat(3000),
+    stack: 'Error: x\n' + '    at f (file.js:1:1)\n'.repeat(200),
+  };
+
+  assert.equal(truncateEntry(entry, 1000), true);
+  assert.equal(entry.metadata.labels?.[TRUNCATED_FIELDS_LABEL], 'message,stack,bigger,big');
+  assert.match(String(entry.data.bigger), /^\[truncated \d+ bytes\]$/);
+  assert.ok(String(entry.data.big).endsWith('...[truncated]'));
+  assert.equal(entry.data.small, 's');
+  assert.ok(size(entry) <= 1000);
+});
+
+test('never splits multi-byte characters', () => {
+  const entry: TruncatableEntry = { metadata: {}, data: {}, message: '€'.repeat(2000) };
+  truncateEntry(entry, 1000);
+  assert.match(entry.message!, /^€+\.\.\.\[truncated\]$/);
+});
+
+test('joins the message and the stack in composeEntry', () => {
+  const parts = composeEntry({ metadata: {}, data: {}, message: 'failed', stack: 'Error: x' });
+  assert.equal(parts.data.message, 'failed\nError: x');
+});
@@ -0,0 +1,153 @@
+/**
+ * Entry size enforcement for Cloud Logging
+ */
+
+import type { LogEntry } from '@google-cloud/logging/build/src/entry.js';
+import type { LogEntryParts } from './types.js';
+
+const TRUNCATION_MARKER = '...[truncated]';
+
+/**
+ * Bytes kept free for the truncation labels and entry overhead
+ */
+const RESERVED_BYTES = 512;
+
+/**
+ * Label keys added to truncated entries
+ */
+export const TRUNCATED_LABEL = 'truncated';
+export const TRUNCATED_ORIGINAL_SIZE_LABEL = 'truncated_original_size';
+export const TRUNCATED_FIELDS_LABEL = 'truncated_fields';
+
+/**
+ * The parts of an entry that may be truncated. The message and the
+ * error stack are kept apart until the size has been enforced.
+ */
+export interface TruncatableEntry {
+  metadata: LogEntry;
+  data: Record<string, unknown>;
+  message?: string;
+  stack?: string;
+}
+
+/**
+ * Join the log message and the error stack into the message field
+ */
+export function composeMessage(message?: string, stack?: string): string | undefined {
+  if (message && stack) {
+    return `${message}\n${stack}`;
+  }
+  return message || stack || undefined;
+}
+
+/**
+ * Join the message and the error stack into the message field of the
+ * payload, once the size has been enforced. The payload is modified in place.
+ */
+export function composeEntry(entry: TruncatableEntry): LogEntryParts {
+  const message = composeMessage(entry.message, entry.stack);
+  if (message !== undefined) {
+    entry.data.message = message;
+  }
+  return { metadata: entry.metadata, data: entry.data };
+}
+
+/**
+ * Serialize a value, treating unserializable values (e.g. circular data) as empty
+ */
+function serializedSize(value: unknown): number {
+  try {
+    return Buffer.byteLength(JSON.stringify(value) ?? '');
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Measure the serialized size of the entry as it will be written
+ */
+function measure(entry: TruncatableEntry): number {
+  const message = composeMessage(entry.message, entry.stack);
+  return serializedSize({
+    ...entry.metadata,
+    data: message === undefined ? entry.data : { ...entry.data, message },
+  });
+}
+
+/**
+ * Shorten a string by at least the given number of bytes, appending the
+ * truncation marker. Multi-byte characters are never split.
+ */
+function shorten(value: string, excess: number): string {
+  const bytes = Buffer.from(value);
+  const keep = bytes.length - excess - Buffer.byteLength(TRUNCATION_MARKER);
+  if (keep <= 0) {
+    return TRUNCATION_MARKER;
+  }
+  return bytes.subarray(0, keep).toString().replace(/\uFFFD+$/, '') + TRUNCATION_MARKER;
+}
+
+/**
+ * Truncate an entry in place so that its serialized size fits maxSize.
+ *
+ * Fields are truncated in a fixed order: the log message, then the error
+ * stack, then payload fields from the largest to the smallest. Strings
+ * keep their beginning followed by a truncation marker; other values are
+ * replaced by a placeholder with their original size. Truncated entries get labels with
+ * the original size and the names of the truncated fields.
+ *
+ * @param entry - The entry parts, modified in place
+ * @param maxSize - Maximum serialized size in bytes
+ * @returns True if the entry was truncated
+ */
+export function truncateEntry(entry: TruncatableEntry, maxSize: number): boolean {
+  const originalSize = measure(entry);
+  if (originalSize <= maxSize) {
+    return false;
+  }
+
+  const budget = Math.max(0, maxSize - RESERVED_BYTES);
+  const fields: string[] = [];
+
+  if (entry.message) {
+    const excess = measure(entry) - budget;
+    if (excess > 0) {
+      entry.message = shorten(entry.message, excess);
+      fields.push('message');
+    }
+  }
+
+  if (entry.stack) {
+    const excess = measure(entry) - budget;
+    if (excess > 0) {
+      entry.stack = shorten(entry.stack, excess);
+      fields.push('stack');
+    }
+  }
+
+  // Largest payload fields first; each field is truncated at most once
+  const candidates = Object.keys(entry.data)
+    .map((key) => ({ key, size: serializedSize(entry.data[key]) }))
+    .sort((a, b) => b.size - a.size || a.key.localeCompare(b.key));
+
+  for (const { key, size } of candidates) {
+    const excess = measure(entry) - budget;
+    if (excess <= 0) {
+      break;
+    }
+
+    const value = entry.data[key];
+    entry.data[key] =
+      typeof value === 'string' ? shorten(value, excess) : `[truncated ${size} bytes]`;
+    fields.push(key);
+  }
+
+  entry.metadata.labels = {
+    ...entry.metadata.labels,
+    [TRUNCATED_LABEL]: 'true',
+    [TRUNCATED_ORIGINAL_SIZE_LABEL]: String(originalSize),
+    [TRUNCATED_FIELDS_LABEL]: fields.join(','),
+  };
+
+  return true;
+}
@@ -1,5 +1,6 @@
-import type { Log, LogSync, Logging } from '@google-cloud/logging';
+import type { Entry, Log, LogSync, Logging } from '@google-cloud/logging';
 import type { google } from '@google-cloud/logging/build/protos/protos.js';
+import type { LogEntry } from '@google-cloud/logging/build/src/entry.js';
 
 /**
  * Keys used for trace correlation in log metadata
@@ -7,6 +8,9 @@ import type { google } from '@google-cloud/logging/build/protos/protos.js';
 export const LOGGING_TRACE_KEY = 'logging.googleapis.com/trace';
 export const LOGGING_SPAN_KEY = 'logging.googleapis.com/spanId';
 export const LOGGING_SAMPLED_KEY = 'logging.googleapis.com/trace_sampled';
+export const LOGGING_SOURCE_LOCATION_KEY = 'logging.googleapis.com/sourceLocation';
+export const LOGGING_OPERATION_KEY = 'logging.googleapis.com/operation';
+export const LOGGING_INSERT_ID_KEY = 'logging.googleapis.com/insertId';
 
 /**
  * Service context for Google Cloud Error Reporting
@@ -21,16 +25,588 @@ export interface ServiceContext {
  */
 export type MonitoredResource = google.api.IMonitoredResource;
 
+/**
+ * Lookup of a metadata server path (e.g. 'instance/zone'),
+ * resolving to undefined when the value is unavailable
+ */
+export type MetadataLookup = (path: string) => Promise<string | undefined>;
+
+/**
+ * Options for monitored resource auto-detection
+ */
+export interface ResourceDetectionOptions {
+  /**
+   * Function used to query the metadata server.
+   * Default: HTTP requests to metadata.google.internal
+   */
+  metadataLookup?: MetadataLookup;
+
+  /**
+   * Timeout for each metadata server request in milliseconds.
+   * Default: 3000
+   */
+  timeoutMs?: number;
+}
+
 /**
  * HTTP request information for request correlation
  */
 export type HttpRequest = google.logging.type.IHttpRequest;
 
+/**
+ * Trace correlation fields of a log entry
+ */
+export interface TraceContext {
+  trace?: string;
+  spanId?: string;
+  traceSampled?: boolean;
+}
+
+/**
+ * Supplies the trace context for entries that do not carry one.
+ * Receives the configured project ID, needed to build the trace resource name.
+ */
+export type TraceContextProvider = (projectId?: string) => TraceContext | null | undefined;
+
 /**
  * Callback type for async operations
  */
 export type Callback = (err: Error | null, response?: object) => void;
 
+/**
+ * Batching configuration for API writes
+ */
+export interface BatchingOptions {
+  /**
+   * Maximum number of entries sent in a single write call.
+   * Default: 200
+   */
+  maxEntries?: number;
+
+  /**
+   * Maximum combined size of the entries in a single write call, in bytes.
+   * Default: 4000000 (4MB)
+   */
+  maxBytes?: number;
+
+  /**
+   * Maximum time in milliseconds an entry is buffered before the batch is sent.
+   * Default: 1000
+   */
+  maxDelayMs?: number;
+}
+
+/**
+ * Options for the disk spool buffering API writes while Cloud Logging
+ * is unreachable
+ */
+export interface SpoolOptions {
+  /**
+   * Directory of the spool's segment files and checkpoint. Each process
+   * needs its own directory.
+   */
+  directory: string;
+
+  /**
+   * Size in bytes at which a new segment file is started.
+   * Default: 1000000 (1MB)
+   */
+  maxSegmentBytes?: number;
+
+  /**
+   * Maximum size of the spool in bytes. Beyond it, the oldest segments
+   * are dropped. Default: 100000000 (100MB)
+   */
+  maxBytes?: number;
+
+  /**
+   * Maximum age in milliseconds of spooled entries. Older segments are
+   * dropped without being replayed. Default: 86400000 (24 hours)
+   */
+  maxAgeMs?: number;
+
+  /**
+   * Interval in milliseconds between replay attempts while the API is
+   * failing. Default: 5000
+   */
+  drainIntervalMs?: number;
+}
+
+/**
+ * What to do when the retry queue is full:
+ * - 'drop-oldest': discard the oldest queued entries to make room
+ * - 'drop-newest': discard the entries that do not fit
+ * - 'block': make new writes wait until the queue has room
+ */
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'block';
+
+/**
+ * Retry configuration for failed API writes
+ */
+export interface RetryOptions {
+  /**
+   * Maximum number of retries for an entry before it is dropped.
+   * Default: 5
+   */
+  maxRetries?: number;
+
+  /**
+   * Delay before the first retry in milliseconds.
+   * Default: 500
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Upper bound for the delay between retries in milliseconds.
+   * Default: 30000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Factor applied to the delay after each consecutive failure.
+   * Default: 2
+   */
+  multiplier?: number;
+
+  /**
+   * Maximum number of entries held in memory while waiting to be retried.
+   * Default: 10000
+   */
+  maxQueueSize?: number;
+
+  /**
+   * What to do when the retry queue is full.
+   * Default: 'drop-oldest'
+   */
+  overflowPolicy?: OverflowPolicy;
+}
+
+/**
+ * Counters describing the outcome of API writes
+ */
+export interface WriteStats {
+  /**
+   * Number of entry retries performed
+   */
+  retried: number;
+
+  /**
+   * Entries waiting in the retry queue
+   */
+  queued: number;
+
+  /**
+   * Entries dropped because the retry queue was full
+   */
+  droppedOverflow: number;
+
+  /**
+   * Entries dropped after exhausting their retries
+   */
+  droppedRetriesExhausted: number;
+
+  /**
+   * Entries dropped because the write failed with a non-retryable error
+   */
+  droppedNonRetryable: number;
+
+  /**
+   * Entries dropped because they were still pending at shutdown
+   */
+  droppedShutdown: number;
+
+  /**
+   * Entries written to the disk spool
+   */
+  spooled: number;
+
+  /**
+   * Entries in the disk spool waiting to be replayed
+   */
+  spoolQueued: number;
+
+  /**
+   * Entries dropped from the disk spool because it exceeded maxBytes
+   */
+  droppedSpoolOverflow: number;
+
+  /**
+   * Entries dropped from the disk spool because they exceeded maxAgeMs
+   */
+  droppedSpoolExpired: number;
+}
+
+/**
+ * Transport metrics. Counters are totals since the transport started;
+ * queueDepth is the current value.
+ */
+export interface LoggingMetrics extends WriteStats {
+  /**
+   * Entries written to the API, stdout or the configured writer
+   */
+  entriesWritten: number;
+
+  /**
+   * Serialized bytes of the written entries. Not counted for stdout
+   * mode through the client library.
+   */
+  bytesWritten: number;
+
+  /**
+   * Entries suppressed by sampling, rate limits, deduplication or
+   * beforeWrite hooks
+   */
+  entriesSuppressed: number;
+
+  /**
+   * Entries in failed write attempts, including attempts retried later
+   */
+  entriesFailed: number;
+
+  /**
+   * Entries in failed write attempts by error code, e.g. UNAVAILABLE or EPIPE
+   */
+  failuresByCode: Record<string, number>;
+
+  /**
+   * Duration of successful writes: API batches, or single stdout lines
+   */
+  writeLatencyMs: { count: number; sum: number; max: number };
+
+  /**
+   * Entries buffered or waiting for a retry
+   */
+  queueDepth: number;
+}
+
+/**
+ * Health of the transport:
+ * - healthy: the last write succeeded and nothing waits for a retry
+ * - degraded: the last write failed, or entries wait for a retry
+ * - failing: the last writes failed repeatedly, or the transport was shut down
+ */
+export type LoggingHealthStatus = 'healthy' | 'degraded' | 'failing';
+
+/**
+ * Health report of the transport
+ */
+export interface LoggingHealth {
+  status: LoggingHealthStatus;
+
+  /**
+   * Write attempts that failed since the last successful write
+   */
+  consecutiveFailures: number;
+
+  /**
+   * Time of the last successful write (ISO 8601)
+   */
+  lastSuccessAt?: string;
+
+  /**
+   * Time of the last failed write (ISO 8601)
+   */
+  lastFailureAt?: string;
+
+  /**
+   * Code and message of the last failed write
+   */
+  lastError?: { code: string; message: string };
+
+  /**
+   * Entries buffered or waiting for a retry
+   */
+  queueDepth: number;
+}
+
+/**
+ * Severity, labels and payload of a request log entry
+ */
+export interface RequestLogDetails {
+  /**
+   * Severity of the entry. Default: 'INFO'
+   */
+  severity?: CloudLoggingSeverity;
+
+  /**
+   * Labels added to the labels from the options
+   */
+  labels?: Record<string, string>;
+
+  /**
+   * JSON payload of the entry
+   */
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * Token bucket limiting how many entries are written
+ */
+export interface RateLimit {
+  /**
+   * Entries allowed per interval
+   */
+  limit: number;
+
+  /**
+   * Length of the interval in milliseconds. Default: 1000
+   */
+  intervalMs?: number;
+
+  /**
+   * Entries allowed in a burst, the capacity of the bucket. Default: limit
+   */
+  burst?: number;
+}
+
+/**
+ * Client-side sampling and rate limiting of entries
+ */
+export interface SamplingOptions {
+  /**
+   * Fraction of entries to keep per severity, from 0 to 1,
+   * e.g. { DEBUG: 0.1 } to keep 10% of debug entries. Entries with
+   * a trace are kept or dropped together with the rest of their trace.
+   */
+  rates?: Partial<Record<CloudLoggingSeverity, number>>;
+
+  /**
+   * Rate limits per severity
+   */
+  rateLimits?: Partial<Record<CloudLoggingSeverity, RateLimit>>;
+
+  /**
+   * Rate limit applied to each message (the msg of the log object, before
+   * the prefix is added) separately. Pino interpolates msg before the
+   * transport sees it, so 'retry %d failed' gets a limit per value;
+   * set messageKey for such messages.
+   */
+  messageRateLimit?: RateLimit;
+
+  /**
+   * Field of the log object that messageRateLimit and the summary's
+   * topMessages use instead of msg when it is set, e.g. a message
+   * template or event name recorded by the application
+   */
+  messageKey?: string;
+
+  /**
+   * Always keep entries whose traceSampled is true. Default: true
+   */
+  keepSampledTraces?: boolean;
+
+  /**
+   * Never sample or limit entries of ERROR severity and above. Default: true
+   */
+  exemptErrors?: boolean;
+
+  /**
+   * Interval in milliseconds of the summary entry counting suppressed
+   * entries. A final summary is written on shutdown. 0 disables summaries.
+   * Default: 60000
+   */
+  summaryIntervalMs?: number;
+}
+
+/**
+ * Suppression of repeated entries
+ */
+export interface DedupOptions {
+  /**
+   * Length of the window in milliseconds, starting at the first
+   * occurrence of an entry. Default: 60000
+   */
+  windowMs?: number;
+
+  /**
+   * Maximum number of distinct entries tracked at once. Entries beyond
+   * it are written without deduplication. Default: 1000
+   */
+  maxGroups?: number;
+}
+
+/**
+ * Source code location of a log call
+ */
+export interface SourceLocation {
+  file?: string;
+  line?: number | string;
+  function?: string;
+}
+
+/**
+ * Rule sending matching entries to a different log. All conditions
+ * set on a route must match.
+ */
+export interface LogRoute {
+  /**
+   * Log name matching entries are written to
+   */
+  logName: string;
+
+  /**
+   * Minimum Pino level, as a level name or number
+   */
+  level?: string | number;
+
+  /**
+   * Log object fields and the values they must have. An array
+   * matches any of its values.
+   */
+  match?: Record<string, unknown>;
+
+  /**
+   * Custom condition. Functions cannot be passed to the transport's
+   * worker thread, so filters only apply when using LoggingCommon directly.
+   */
+  filter?: (logObject: PinoLogObject) => boolean;
+
+  /**
+   * Labels added to entries of this route
+   */
+  labels?: Record<string, string>;
+
+  /**
+   * Monitored resource for entries of this route
+   */
+  resource?: MonitoredResource;
+}
+
+/**
+ * Operation a log entry belongs to, grouping the entries of a
+ * long-running job in Logs Explorer
+ */
+export interface LogOperation {
+  id?: string;
+  producer?: string;
+  first?: boolean;
+  last?: boolean;
+}
+
+/**
+ * Options for the caller mixin
+ */
+export interface CallerMixinOptions {
+  /**
+   * Number of additional stack frames to skip, for logging wrappers
+   * that call the logger on behalf of their caller.
+   * Default: 0
+   */
+  stackDepth?: number;
+
+  /**
+   * Resolve locations in compiled files to the original sources using
+   * their source maps (e.g. TypeScript compiled with sourceMap enabled).
+   * Default: false
+   */
+  sourceMaps?: boolean;
+
+  /**
+   * Directory file paths are made relative to.
+   * Default: process.cwd()
+   */
+  basePath?: string;
+}
+
+/**
+ * An error serialized for the JSON payload
+ */
+export interface SerializedError {
+  type: string;
+  message: string;
+  stack?: string;
+  cause?: unknown;
+  errors?: unknown[];
+  [key: string]: unknown;
+}
+
+/**
+ * A log entry before it is written: the entry metadata (severity,
+ * httpRequest, labels, ...) and the JSON payload
+ */
+export interface LogEntryParts {
+  metadata: LogEntry;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Hook run before an entry is written. It may mutate the entry in place,
+ * return a replacement, or return false to drop the entry.
+ */
+export type BeforeWriteHook = (entry: LogEntryParts) => LogEntryParts | false | void;
+
+/**
+ * Destination for batched entries, replacing the Cloud Logging API
+ * and stdout output, e.g. MemorySink from pino-cloud-logging/testing
+ */
+export interface LogWriter {
+  /**
+   * Write entries to a log. A rejected promise fails the batch, which
+   * is retried according to the retry options.
+   */
+  write(logName: string, entries: Entry[]): Promise<void>;
+}
+
+/**
+ * Stream the fast stdout mode writes JSON lines to, e.g. a sonic-boom
+ * instance or a Node.js writable stream
+ */
+export interface DestinationStream {
+  write(chunk: string): unknown;
+  end?(): unknown;
+}
+
+/**
+ * A written entry as captured by MemorySink and the logging emulator,
+ * in the JSON form of the Cloud Logging API
+ */
+export interface CapturedLogEntry {
+  logName: string;
+  severity?: string;
+  timestamp?: string;
+  insertId?: string;
+  trace?: string;
+  spanId?: string;
+  traceSampled?: boolean;
+  labels?: Record<string, string>;
+  resource?: MonitoredResource;
+  httpRequest?: HttpRequest;
+  sourceLocation?: SourceLocation;
+  operation?: LogOperation;
+  jsonPayload?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * Replacement for redacted values: a fixed value, or a function
+ * receiving the original value and its path
+ */
+export type RedactCensor = string | ((value: unknown, path: string[]) => unknown);
+
+/**
+ * Redaction of entry fields
+ */
+export interface RedactOptions {
+  /**
+   * Paths to redact, e.g. 'user.password', 'headers["x-api-key"]',
+   * 'users[*].email' or 'httpRequest.requestUrl'. '*' matches any key
+   * or array index. Paths starting with httpRequest or labels address
+   * the entry metadata; all other paths address the JSON payload.
+   */
+  paths: string[];
+
+  /**
+   * Replacement value. Default: '[REDACTED]'
+   */
+  censor?: RedactCensor;
+
+  /**
+   * Remove redacted keys instead of replacing their values.
+   * Default: false
+   */
+  remove?: boolean;
+}
+
 /**
  * Pino log levels mapped to numeric values
  */
@@ -72,6 +648,15 @@ export const PINO_TO_CLOUD_SEVERITY: Record<number, CloudLoggingSeverity> = {
   10: 'DEBUG',    // trace
 };
 
+/**
+ * How to map Pino levels that have no entry in the severity map:
+ * - 'lower': use the severity of the closest mapped level below
+ * - 'higher': use the severity of the closest mapped level above
+ * - 'nearest': use the severity of the closest mapped level
+ * - a Cloud Logging severity: always use that severity
+ */
+export type SeverityFallback = 'lower' | 'higher' | 'nearest' | CloudLoggingSeverity;
+
 /**
  * Options for the transport
  */
@@ -104,11 +689,24 @@ export interface TransportOptions {
    */
   resource?: MonitoredResource;
 
+  /**
+   * Detect the monitored resource (Cloud Run, Cloud Functions, App Engine,
+   * GKE or GCE) from environment variables and the metadata server.
+   * Ignored when resource is set.
+   */
+  detectResource?: boolean | ResourceDetectionOptions;
+
   /**
    * Service context for Google Cloud Error Reporting integration
    */
   serviceContext?: ServiceContext;
 
+  /**
+   * Supplies the trace context for entries without trace fields.
+   * Default: the active OpenTelemetry span, then the legacy trace agent
+   */
+  traceContextProvider?: TraceContextProvider;
+
   /**
    * Custom labels to attach to all log entries
    */
@@ -119,12 +717,47 @@ export interface TransportOptions {
    */
   prefix?: string;
 
+  /**
+   * Mapping from Pino levels to Cloud Logging severities, extending the
+   * default mapping. Keys are numeric levels or level names, including
+   * names from customLevels.
+   *
+   * @example { audit: 'NOTICE', 70: 'ALERT' }
+   */
+  severityMap?: Record<string, CloudLoggingSeverity>;
+
+  /**
+   * How to map levels without an entry in the severity map.
+   * Default: 'lower'
+   */
+  severityFallback?: SeverityFallback;
+
+  /**
+   * Custom Pino levels (same shape as Pino's customLevels option),
+   * so that severityMap can refer to them by name
+   */
+  customLevels?: Record<string, number>;
+
   /**
    * If true, output logs to stdout in JSON format instead of sending to the API.
    * Use this for managed environments (Cloud Run, Cloud Functions, GKE with logging agent)
    */
   redirectToStdout?: boolean;
 
+  /**
+   * In stdout mode, write the structured logging JSON format directly
+   * instead of through the client library, which copies every entry
+   * several times. Default: false
+   */
+  fastStdout?: boolean;
+
+  /**
+   * Where fast stdout mode writes: a file descriptor, a file path, or a
+   * stream such as sonic-boom. Streams cannot be passed to the transport's
+   * worker thread. Default: 1 (stdout)
+   */
+  destination?: number | string | DestinationStream;
+
   /**
    * Whether to use the 'message' field for the log message.
    * Default: true
@@ -132,12 +765,124 @@ export interface TransportOptions {
   useMessageField?: boolean;
 
   /**
-   * Maximum size of a single log entry in bytes.
-   * Entries exceeding this size will be truncated.
+   * Maximum size of a single log entry in bytes, enforced in both
+   * API and stdout mode. Oversized entries are truncated: the message
+   * first, then the error stack, then the largest payload fields.
    * Default: 250000 (250KB)
    */
   maxEntrySize?: number;
 
+  /**
+   * Batching of API writes. Entries are buffered and sent together
+   * in a single write call. Ignored when redirectToStdout is true.
+   */
+  batching?: BatchingOptions;
+
+  /**
+   * Retry of failed API writes. Writes failing with UNAVAILABLE,
+   * DEADLINE_EXCEEDED or RESOURCE_EXHAUSTED are queued in memory and
+   * retried with exponential backoff. Ignored when redirectToStdout is true.
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Disk spool for API writes. While writes fail with a retryable error,
+   * entries are appended to segment files instead of the in-memory retry
+   * queue, and replayed in order once the API is reachable again,
+   * including after a restart.
+   */
+  spool?: SpoolOptions;
+
+  /**
+   * Maximum time in milliseconds to wait for pending API writes when
+   * the transport is closed or shutdown() is called.
+   * Default: 5000
+   */
+  flushTimeoutMs?: number;
+
+  /**
+   * Client-side sampling and rate limiting. Suppressed entries are
+   * counted in periodic summary entries.
+   */
+  sampling?: SamplingOptions;
+
+  /**
+   * Suppress repeats of entries with the same severity, message and error
+   * type. The first occurrence is written immediately; when the window
+   * closes, a rollup entry reports the repeats with repeatCount,
+   * firstTimestamp and lastTimestamp. Default: false
+   */
+  dedup?: boolean | DedupOptions;
+
+  /**
+   * Rules sending entries to other log names, evaluated in order.
+   * Entries matching no route go to logName.
+   */
+  routes?: LogRoute[];
+
+  /**
+   * Map the logging.googleapis.com/sourceLocation field of log objects,
+   * e.g. from createCallerMixin, to the entry's sourceLocation. Error
+   * entries without a stack use it as the Error Reporting location.
+   * Default: false
+   */
+  useSourceLocation?: boolean;
+
+  /**
+   * Log object keys holding errors. Errors found under these keys are fully
+   * serialized, including causes, AggregateError errors and custom
+   * properties. The first error found provides the stack for the message
+   * and Error Reporting. Default: ['err', 'error']
+   */
+  errorKeys?: string[];
+
+  /**
+   * Fields to redact from every entry, including the httpRequest built by
+   * the middleware. Either a list of paths or full redaction options.
+   */
+  redact?: string[] | RedactOptions;
+
+  /**
+   * Hooks run in order before every entry is written, after redaction.
+   * Functions cannot be passed to the transport's worker thread, so hooks
+   * only apply when using LoggingCommon or the middleware directly.
+   */
+  beforeWrite?: BeforeWriteHook | BeforeWriteHook[];
+
+  /**
+   * Write entries to this writer instead of the Cloud Logging API or
+   * stdout. Entries are batched and retried as in API mode. Like
+   * beforeWrite, a writer only applies when using LoggingCommon or
+   * createTransport directly.
+   */
+  writer?: LogWriter;
+
+  /**
+   * Host and port of a Cloud Logging emulator, e.g. 'localhost:8085' from
+   * LoggingEmulator. API writes are sent there over plain HTTP without
+   * credentials. Default: the LOGGING_EMULATOR_HOST environment variable
+   */
+  emulatorHost?: string;
+
+  /**
+   * Called with the transport metrics every metricsIntervalMs and on
+   * shutdown. Functions cannot be passed to the transport's worker thread,
+   * so use openTelemetryMetrics there.
+   */
+  onMetrics?: (metrics: LoggingMetrics) => void;
+
+  /**
+   * Interval in milliseconds of onMetrics calls. Default: 60000
+   */
+  metricsIntervalMs?: number;
+
+  /**
+   * Report the metrics as OpenTelemetry instruments of the
+   * 'pino-cloud-logging' meter. Requires @opentelemetry/api and a
+   * configured meter provider. Default: false
+   */
+  openTelemetryMetrics?: boolean;
+
   /**
    * Default callback for all log operations
    */
@@ -161,6 +906,9 @@ export interface PinoLogObject {
   [LOGGING_TRACE_KEY]?: string;
   [LOGGING_SPAN_KEY]?: string;
   [LOGGING_SAMPLED_KEY]?: boolean;
+  [LOGGING_SOURCE_LOCATION_KEY]?: SourceLocation;
+  [LOGGING_OPERATION_KEY]?: LogOperation;
+  [LOGGING_INSERT_ID_KEY]?: string;
   httpRequest?: HttpRequest;
   labels?: Record<string, string>;
   [key: string]: unknown;
@@ -189,11 +937,34 @@ export interface LoggingCommonState {
   log: Log | LogSync;
   projectId?: string;
   resource?: MonitoredResource;
+  detectResource?: boolean | ResourceDetectionOptions;
   serviceContext?: ServiceContext;
+  traceContextProvider?: TraceContextProvider;
   labels?: Record<string, string>;
   prefix?: string;
+  severityMap?: Record<string, CloudLoggingSeverity>;
+  severityFallback?: SeverityFallback;
+  customLevels?: Record<string, number>;
   redirectToStdout: boolean;
+  fastStdout: boolean;
+  destination?: number | string | DestinationStream;
   useMessageField: boolean;
   maxEntrySize: number;
+  batching?: BatchingOptions;
+  retry?: RetryOptions;
+  spool?: SpoolOptions;
+  flushTimeoutMs: number;
+  sampling?: SamplingOptions;
+  dedup?: boolean | DedupOptions;
+  routes?: LogRoute[];
+  useSourceLocation: boolean;
+  errorKeys: string[];
+  redact?: string[] | RedactOptions;
+  beforeWrite?: BeforeWriteHook | BeforeWriteHook[];
+  writer?: LogWriter;
+  emulatorHost?: string;
+  onMetrics?: (metrics: LoggingMetrics) => void;
+  metricsIntervalMs?: number;
+  openTelemetryMetrics?: boolean;
   defaultCallback?: Callback;
 }